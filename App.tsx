@@ -10,149 +10,689 @@ import {
   LayoutDashboard,
   Zap,
   ShieldCheck,
-  Terminal,
-  FileText
+  FileText,
+  Pause,
+  Play,
+  X
 } from 'lucide-react';
-import { ProcessingFile, ExtractedNumber, DownloadHistory } from './types';
-import { preprocessImage, extractAndFormatNumbers } from './utils/imageProcessing';
-import { performOCR } from './services/geminiService';
-import { generateCSV, downloadCSV } from './utils/csv';
+import { ProcessingFile, ExtractedNumber, DownloadHistory, ExtractionMode, PhoneParseOptions, ExportFormatId, ExportTemplate, QueueSettings, ReviewStatus, ProcessingStatus, PreprocessOptions, LedgerEntry, ExportScope, ContactImportResult, VaultState, EntityType, LogEvent, LogLevel, LogContext, PriceTable, UsageStats } from './types';
+import { computeDHash, DEFAULT_PREPROCESS_OPTIONS } from './utils/imageProcessing';
+import { findDuplicate } from './utils/duplicates';
+import { isMultiPageDocument, renderDocumentPages, collectWorkUnits, applyUnitPatch, unitIdsOf, UnitPatch, WorkUnit } from './utils/documents';
+import { ExtractionResult, extractFromSource, toExtractedNumbers } from './core/pipeline';
+import { createLogEvent } from './utils/eventLog';
+import { DEFAULT_PRICE_TABLE, EMPTY_USAGE, addUsage, formatCost, formatUsage, sumUsage, wouldExceedBudget } from './utils/usage';
+import { DEFAULT_PHONE_OPTIONS, ALL_REGIONS, parsePhoneNumber } from './utils/phoneNumbers';
+import { ALL_ENTITY_TYPES, DEFAULT_ENTITY_TYPES } from './utils/extractors';
+import { listOcrProviders, getOcrProvider, DEFAULT_OCR_PROVIDER } from './services/ocrRegistry';
+import { createJobQueue, JobQueue, DEFAULT_QUEUE_SETTINGS } from './services/jobQueue';
+import { classifyError } from './services/processingErrors';
+import { sha256Hex } from './services/ocrCache';
+import {
+  SessionRecord,
+  saveBlob,
+  deleteBlobs,
+  saveSession,
+  loadResumableSession,
+  deleteSession,
+  toSessionRecord,
+  restoreSession,
+  saveHistoryItem,
+  listHistory,
+  migrateLegacyHistory,
+  searchHistory,
+  loadLedger,
+  recordExport,
+  backfillLedger,
+  pruneLedger,
+  encryptStoredData,
+  purgeExpired,
+  wipeWorkspaceData,
+  purgeAllData,
+  ocrResultCache
+} from './services/storage';
+import { createVault, isVaultEnabled, lockVault, unlockVault } from './services/vault';
+import SecurityPanel from './components/SecurityPanel';
+import { listExportFormats, getExportFormat, encodeArchive, downloadArchive, DEFAULT_EXPORT_FORMAT } from './utils/exporters';
+import OcrSettingsPanel from './components/OcrSettingsPanel';
+import EventLogPanel from './components/EventLogPanel';
+import UsagePanel from './components/UsagePanel';
+import RegionSettingsPanel from './components/RegionSettingsPanel';
+import ExtractorSettingsPanel from './components/ExtractorSettingsPanel';
+import PreprocessSettingsPanel from './components/PreprocessSettingsPanel';
+import TemplateEditor from './components/TemplateEditor';
+import { DEFAULT_TEMPLATE, normalizeTemplate } from './utils/templates';
+import ReviewWorkspace from './components/ReviewWorkspace';
+import SourcePreview from './components/SourcePreview';
+import { approvedNumbers } from './utils/review';
+import { EXPORT_SCOPES, indexLedger, lastExport, markExported, selectForExport } from './utils/ledger';
+import LedgerPanel from './components/LedgerPanel';
+import { importContactFile, indexContacts, matchContact, mergeWithContacts } from './utils/contactImport';
+import ContactImportPanel from './components/ContactImportPanel';
+
+const STATUS_CLASSES: Record<ProcessingStatus, string> = {
+  pending: 'text-slate-600 animate-pulse',
+  processing: 'text-slate-600 animate-pulse',
+  paused: 'text-amber-500',
+  completed: 'text-emerald-500',
+  error: 'text-red-500',
+  cancelled: 'text-amber-500',
+};
 
 const App: React.FC = () => {
   const [files, setFiles] = useState<ProcessingFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [extractedNumbers, setExtractedNumbers] = useState<ExtractedNumber[]>([]);
   const [history, setHistory] = useState<DownloadHistory[]>([]);
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [resumeCandidate, setResumeCandidate] = useState<SessionRecord | null>(null);
+  const sessionRef = useRef({ id: Math.random().toString(36).substr(2, 9), createdAt: Date.now() });
   const [downloadCount, setDownloadCount] = useState(0);
-  const [logs, setLogs] = useState<{msg: string, type: 'info' | 'success' | 'error' | 'system'}[]>([]);
-  const logsEndRef = useRef<HTMLDivElement>(null);
+  const [ocrProviderId, setOcrProviderId] = useState<string>(DEFAULT_OCR_PROVIDER);
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('text');
+  const [phoneOptions, setPhoneOptions] = useState<PhoneParseOptions>(DEFAULT_PHONE_OPTIONS);
+  const [entityTypes, setEntityTypes] = useState<EntityType[]>(DEFAULT_ENTITY_TYPES);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [exportFormat, setExportFormat] = useState<ExportFormatId>(DEFAULT_EXPORT_FORMAT);
+  const [exportScope, setExportScope] = useState<ExportScope>('all');
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [contactImports, setContactImports] = useState<ContactImportResult[]>([]);
+  const [vaultState, setVaultState] = useState<VaultState>(() => (isVaultEnabled() ? 'locked' : 'off'));
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [persistenceReady, setPersistenceReady] = useState(false);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [maskNumbers, setMaskNumbers] = useState(false);
+  const [templates, setTemplates] = useState<ExportTemplate[]>([DEFAULT_TEMPLATE]);
+  const [activeTemplateId, setActiveTemplateId] = useState<string>(DEFAULT_TEMPLATE.id);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(DEFAULT_QUEUE_SETTINGS);
+  const [batchPaused, setBatchPaused] = useState(false);
+  const queueRef = useRef<JobQueue | null>(null);
+  const [priceTable, setPriceTable] = useState<PriceTable>(DEFAULT_PRICE_TABLE);
+  const [batchBudget, setBatchBudget] = useState(0);
+  const [batchUsage, setBatchUsage] = useState<UsageStats | null>(null);
+  // Queue callbacks close over the render that started the batch, so budget edits and overrides go through a ref
+  const budgetRef = useRef({ limit: 0, halted: false, override: false });
+  const [previewNumber, setPreviewNumber] = useState<ExtractedNumber | null>(null);
+  const [logs, setLogs] = useState<LogEvent[]>([]);
+
+  // Everything read from IndexedDB; with the vault enabled this waits for the passphrase
+  const loadPersistentData = async () => {
+    await migrateLegacyHistory()
+      .then(migrated => {
+        if (migrated > 0) addLog(`Migrated ${migrated} archive(s) into the persistent store.`, 'system');
+        return listHistory();
+      })
+      .then(async items => {
+        setHistory(items);
+        // Archives exported before the ledger existed still count as "already exported"
+        if (!localStorage.getItem('omniextract_ledger_seeded')) {
+          const seeded = await backfillLedger(items);
+          localStorage.setItem('omniextract_ledger_seeded', '1');
+          if (seeded > 0) addLog(`Export ledger seeded with ${seeded} number(s) from past archives.`, 'system');
+        }
+        setLedger(await loadLedger());
+      })
+      .catch(() => addLog('WARNING: Persistent archive unavailable.', 'error'));
+    await loadResumableSession()
+      .then(session => {
+        if (session) setResumeCandidate(session);
+      })
+      .catch(() => addLog('WARNING: Session store unavailable. Work will not survive a reload.', 'error'));
+    setPersistenceReady(true);
+  };
 
   useEffect(() => {
-    const savedHistory = localStorage.getItem('omniextract_history');
-    if (savedHistory) setHistory(JSON.parse(savedHistory));
+    if (isVaultEnabled()) {
+      addLog('Encrypted store detected. Enter the passphrase to load history and sessions.', 'system');
+    } else {
+      loadPersistentData();
+    }
+    const savedRetention = localStorage.getItem('omniextract_retention_days');
+    if (savedRetention) setRetentionDays(parseInt(savedRetention, 10) || 0);
+    setMaskNumbers(localStorage.getItem('omniextract_mask_numbers') === 'true');
     const savedCount = localStorage.getItem('omniextract_count');
     if (savedCount) setDownloadCount(parseInt(savedCount, 10));
+    const savedProvider = localStorage.getItem('omniextract_ocr_provider');
+    if (savedProvider && listOcrProviders().some(p => p.id === savedProvider)) setOcrProviderId(savedProvider);
+    const savedMode = localStorage.getItem('omniextract_extraction_mode');
+    if (savedMode === 'text' || savedMode === 'structured') setExtractionMode(savedMode);
+    const savedRegions = localStorage.getItem('omniextract_phone_regions');
+    if (savedRegions) {
+      const parsed = JSON.parse(savedRegions) as PhoneParseOptions;
+      const allowedRegions = parsed.allowedRegions.filter(r => ALL_REGIONS.includes(r));
+      if (allowedRegions.includes(parsed.defaultRegion)) setPhoneOptions({ defaultRegion: parsed.defaultRegion, allowedRegions });
+    }
+    const savedEntityTypes = localStorage.getItem('omniextract_entity_types');
+    if (savedEntityTypes) setEntityTypes(['phone', ...(JSON.parse(savedEntityTypes) as EntityType[]).filter(t => t !== 'phone' && ALL_ENTITY_TYPES.includes(t))]);
+    const savedPreprocess = localStorage.getItem('omniextract_preprocess');
+    if (savedPreprocess) setPreprocessOptions({ ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(savedPreprocess) });
+    const savedFormat = localStorage.getItem('omniextract_export_format');
+    if (savedFormat && listExportFormats().some(f => f.id === savedFormat)) setExportFormat(savedFormat as ExportFormatId);
+    const savedScope = localStorage.getItem('omniextract_export_scope');
+    if (savedScope === 'all' || savedScope === 'new-only' || savedScope === 'merged') setExportScope(savedScope);
+    const savedTemplates = localStorage.getItem('omniextract_templates');
+    if (savedTemplates) {
+      const parsed = (JSON.parse(savedTemplates) as ExportTemplate[]).map(normalizeTemplate);
+      setTemplates(parsed.some(t => t.id === DEFAULT_TEMPLATE.id) ? parsed : [DEFAULT_TEMPLATE, ...parsed]);
+    }
+    const savedTemplateId = localStorage.getItem('omniextract_active_template');
+    if (savedTemplateId) setActiveTemplateId(savedTemplateId);
+    const savedPrices = localStorage.getItem('omniextract_price_table');
+    if (savedPrices) setPriceTable(JSON.parse(savedPrices));
+    const savedBudget = localStorage.getItem('omniextract_batch_budget');
+    if (savedBudget) setBatchBudget(parseFloat(savedBudget) || 0);
+    const savedQueue = localStorage.getItem('omniextract_queue_settings');
+    if (savedQueue) setQueueSettings({ ...DEFAULT_QUEUE_SETTINGS, ...JSON.parse(savedQueue) });
     addLog('OMNI-CORE INITIALIZED. READY FOR INGESTION.', 'system');
   }, []);
 
+  // Snapshot the buffer shortly after it settles so a reload mid-batch can resume
+  useEffect(() => {
+    if (vaultState === 'locked' || (files.length === 0 && extractedNumbers.length === 0)) return;
+    const timer = setTimeout(() => {
+      const { id, createdAt } = sessionRef.current;
+      saveSession(toSessionRecord(id, createdAt, files, extractedNumbers))
+        .catch(() => addLog('WARNING: Failed to persist session snapshot.', 'error'));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [files, extractedNumbers, vaultState]);
+
   useEffect(() => {
-    localStorage.setItem('omniextract_history', JSON.stringify(history));
-  }, [history]);
+    localStorage.setItem('omniextract_retention_days', retentionDays.toString());
+    if (!persistenceReady || retentionDays === 0) return;
+    const purge = async () => {
+      try {
+        const purged = await purgeExpired(retentionDays);
+        if (purged.archives + purged.sessions + purged.ledger + purged.cache === 0) return;
+        addLog(`Retention: purged ${purged.archives} archive(s), ${purged.sessions} session(s), ${purged.ledger} ledger entr(ies), ${purged.cache} cached OCR result(s) older than ${retentionDays} days.`, 'system');
+        setHistory(await listHistory());
+        setLedger(await loadLedger());
+      } catch (err) {
+        addLog('WARNING: Retention purge failed.', 'error');
+      }
+    };
+    purge();
+    // Long-lived tabs keep enforcing the window
+    const timer = setInterval(purge, 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [retentionDays, persistenceReady]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_mask_numbers', String(maskNumbers));
+  }, [maskNumbers]);
 
   useEffect(() => {
     localStorage.setItem('omniextract_count', downloadCount.toString());
   }, [downloadCount]);
 
   useEffect(() => {
-    logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+    localStorage.setItem('omniextract_ocr_provider', ocrProviderId);
+  }, [ocrProviderId]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_extraction_mode', extractionMode);
+  }, [extractionMode]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_phone_regions', JSON.stringify(phoneOptions));
+  }, [phoneOptions]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_entity_types', JSON.stringify(entityTypes));
+  }, [entityTypes]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_preprocess', JSON.stringify(preprocessOptions));
+  }, [preprocessOptions]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_export_format', exportFormat);
+  }, [exportFormat]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_export_scope', exportScope);
+  }, [exportScope]);
+
+  useEffect(() => {
+    const index = indexLedger(ledger);
+    setExtractedNumbers(prev => prev.map(n => markExported(n, index)));
+  }, [ledger]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_templates', JSON.stringify(templates));
+  }, [templates]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_active_template', activeTemplateId);
+  }, [activeTemplateId]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_queue_settings', JSON.stringify(queueSettings));
+  }, [queueSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_price_table', JSON.stringify(priceTable));
+  }, [priceTable]);
+
+  useEffect(() => {
+    localStorage.setItem('omniextract_batch_budget', batchBudget.toString());
+    // A new limit re-arms the check, so raising the budget and resuming enforces the raised figure
+    budgetRef.current = { limit: batchBudget, halted: false, override: false };
+  }, [batchBudget]);
 
-  const addLog = (msg: string, type: 'info' | 'success' | 'error' | 'system' = 'info') => {
-    setLogs(prev => [...prev, { msg, type }]);
+  const addLog = (msg: string, type: LogLevel = 'info', context?: LogContext) => {
+    setLogs(prev => [...prev, createLogEvent(msg, type, context)]);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles: File[] = Array.from(e.target.files || []);
     if (selectedFiles.length === 0) return;
 
     const limitedFiles = selectedFiles.slice(0, 20);
-    const newFiles: ProcessingFile[] = limitedFiles.map((f: File) => ({
-      id: Math.random().toString(36).substr(2, 9),
-      file: f,
-      previewUrl: URL.createObjectURL(f),
-      status: 'pending',
-      progress: 0
-    }));
+    const newFiles: ProcessingFile[] = [];
+    for (const f of limitedFiles) {
+      const entry: ProcessingFile = {
+        id: Math.random().toString(36).substr(2, 9),
+        file: f,
+        previewUrl: URL.createObjectURL(f),
+        status: 'pending',
+        progress: 0
+      };
+      const fileContext: LogContext = { fileId: entry.id, fileName: f.name };
+      if (isMultiPageDocument(f)) {
+        try {
+          addLog(`Rendering document: ${f.name.toUpperCase()}`, 'info', fileContext);
+          entry.pages = await renderDocumentPages(f);
+          // Documents preview through their first page; browsers cannot display TIFF directly
+          entry.previewUrl = entry.pages[0]?.previewUrl || entry.previewUrl;
+          addLog(`Document split into ${entry.pages.length} page unit(s).`, 'info', fileContext);
+        } catch (err) {
+          entry.status = 'error';
+          entry.error = classifyError(err, 0);
+          addLog(`FAILURE: Could not render ${f.name.toUpperCase()}. ${entry.error.message}`, 'error', fileContext);
+        }
+      }
+      entry.contentHash = await sha256Hex(f);
+      if (preprocessOptions.flagNearDuplicates && !entry.pages && entry.status !== 'error') {
+        entry.perceptualHash = await computeDHash(f).catch(() => undefined);
+      }
+      entry.duplicateOf = findDuplicate(entry, [...files, ...newFiles]);
+      if (entry.duplicateOf) {
+        const { kind, fileName, distance } = entry.duplicateOf;
+        addLog(`${kind === 'exact' ? 'Duplicate' : `Near-duplicate (${distance} bit(s) apart)`}: ${f.name.toUpperCase()} matches ${fileName.toUpperCase()}.`, 'error', fileContext);
+      }
+      newFiles.push(entry);
+    }
 
     setFiles(prev => [...prev, ...newFiles]);
     addLog(`Buffer update: ${limitedFiles.length} objects added to queue.`, 'info');
+
+    await Promise.all(newFiles.flatMap(f => [
+      saveBlob(f.id, f.file),
+      ...(f.pages || []).map(p => saveBlob(p.id, p.image))
+    ])).catch(() => addLog('WARNING: Failed to persist uploaded objects.', 'error'));
+  };
+
+  const resumeSession = async () => {
+    if (!resumeCandidate) return;
+    try {
+      const restored = await restoreSession(resumeCandidate);
+      sessionRef.current = { id: resumeCandidate.id, createdAt: resumeCandidate.createdAt };
+      setFiles(restored.files);
+      const index = indexLedger(ledger);
+      setExtractedNumbers(restored.numbers.map(n => markExported(n, index)));
+      addLog(`Session restored: ${restored.files.length} objects, ${restored.numbers.length} identities.`, 'system');
+    } catch (err) {
+      addLog('FAILURE: Stored session could not be restored.', 'error');
+    }
+    setResumeCandidate(null);
+  };
+
+  const discardSession = async () => {
+    if (!resumeCandidate) return;
+    await deleteSession(resumeCandidate).catch(() => undefined);
+    setResumeCandidate(null);
+    addLog('Previous session discarded.', 'system');
+  };
+
+  const removeFile = (file: ProcessingFile) => {
+    setFiles(prev => prev.filter(f => f.id !== file.id));
+    URL.revokeObjectURL(file.previewUrl);
+    deleteBlobs([file.id, ...(file.pages || []).map(p => p.id)]).catch(() => undefined);
+    addLog(`Removed from buffer: ${file.file.name.toUpperCase()}.`, 'info', { fileId: file.id, fileName: file.file.name });
+  };
+
+  const patchUnit = (id: string, changes: UnitPatch) => {
+    setFiles(prev => applyUnitPatch(prev, id, changes));
+  };
+
+  const extractUnit = async (unit: WorkUnit, providerId: string, context: LogContext, acquire: () => Promise<void>): Promise<ExtractionResult> => {
+    const result = await extractFromSource(unit.image, {
+      providerId,
+      mode: extractionMode,
+      phoneOptions,
+      entityTypes,
+      prices: priceTable,
+      cache: ocrResultCache,
+      preprocess: preprocessOptions,
+      acquire,
+      onStage: stage => {
+        if (stage === 'ocr') patchUnit(unit.id, { progress: 30 });
+        if (stage === 'parse') patchUnit(unit.id, { progress: 70 });
+      },
+    });
+    if (result.cached) addLog(`Cache hit: ${unit.label.toUpperCase()} reused a stored OCR result.`, 'info', context);
+    patchUnit(unit.id, { rawText: result.text });
+    return result;
   };
 
   const processAll = async () => {
-    if (files.length === 0 || isProcessing) return;
+    const batch = collectWorkUnits(files);
+    if (batch.length === 0 || isProcessing) return;
+    const provider = getOcrProvider(ocrProviderId);
+    if (!provider.isAvailable()) {
+      addLog(`ABORT: OCR engine ${provider.label} is unavailable.`, 'error');
+      return;
+    }
     setIsProcessing(true);
-    addLog('CRITICAL: Batch extraction sequence engaged.', 'system');
+    setBatchPaused(false);
+    const batchId = Math.random().toString(36).substr(2, 9);
+    addLog(`CRITICAL: Batch extraction sequence engaged via ${provider.label}.`, 'system', { batchId });
+    budgetRef.current = { ...budgetRef.current, halted: false, override: false };
+    setBatchUsage(null);
+    let spent: UsageStats = EMPTY_USAGE;
+    let metered = 0;
+    let settled = 0;
+    // Units holding a provider call right now, which the budget projection counts as already spent
+    const running = new Set<string>();
 
-    const updatedFiles = [...files];
-    const newExtracted: ExtractedNumber[] = [];
+    const known = new Set<string>(extractedNumbers.map(n => n.formatted));
+    const ledgerIndex = indexLedger(ledger);
+    const unitOf = (id: string) => batch.find(u => u.id === id) as WorkUnit;
+    const nameOf = (id: string) => unitOf(id).label.toUpperCase();
+    const fileNameOf = (unit: WorkUnit) => files.find(f => f.id === unit.fileId)?.file.name || unit.label;
+    const contextOf = (id: string): LogContext => {
+      const unit = unitOf(id);
+      return { batchId, fileId: unit.fileId, unitId: unit.id !== unit.fileId ? unit.id : undefined, fileName: fileNameOf(unit) };
+    };
 
-    for (let i = 0; i < updatedFiles.length; i++) {
-      const current = updatedFiles[i];
-      if (current.status === 'completed') continue;
+    const queue = createJobQueue<ExtractionResult>(queueSettings, {
+      onStart: (id, attempt) => {
+        running.add(id);
+        patchUnit(id, { status: 'processing', progress: 10 });
+        addLog(attempt > 1 ? `Retrying Object: ${nameOf(id)} (attempt ${attempt}).` : `Analyzing Object: ${nameOf(id)}`, 'info', contextOf(id));
+      },
+      onRetry: (id, error, delayMs) => {
+        running.delete(id);
+        patchUnit(id, { status: 'pending', progress: 0, error });
+        addLog(`Transient ${error.reason} on ${nameOf(id)}. Backing off ${(delayMs / 1000).toFixed(1)}s.`, 'error', contextOf(id));
+      },
+      onSuccess: (id, { numbers, durations, usage }) => {
+        settled++;
+        running.delete(id);
+        if (usage) {
+          spent = addUsage(spent, usage);
+          metered++;
+          setBatchUsage(spent);
+        }
+        const unit = unitOf(id);
+        const sourceImage = fileNameOf(unit);
+        const context = { ...contextOf(id), durations };
+        const cost = usage ? ` [${formatUsage(usage)}]` : '';
+        const fresh = toExtractedNumbers(numbers, { sourceImage, sourceFileId: unit.fileId, sourcePage: unit.pageNumber }, known)
+          .map(num => markExported(num, ledgerIndex));
+        setExtractedNumbers(prev => [...prev, ...fresh]);
 
-      try {
-        setFiles(prev => prev.map(f => f.id === current.id ? { ...f, status: 'processing', progress: 10 } : f));
-        addLog(`Analyzing Object: ${current.file.name.toUpperCase()}`, 'info');
-        
-        const base64 = await preprocessImage(current.file);
-        setFiles(prev => prev.map(f => f.id === current.id ? { ...f, progress: 30 } : f));
-
-        const { text } = await performOCR(base64);
-        setFiles(prev => prev.map(f => f.id === current.id ? { ...f, progress: 70, rawText: text } : f));
-
-        const numbers = extractAndFormatNumbers(text);
-        let discoveredInObject = 0;
-        numbers.forEach(num => {
-          const isDuplicate = 
-            newExtracted.some(n => n.formatted === num) || 
-            extractedNumbers.some(n => n.formatted === num);
-          
-          if (!isDuplicate) {
-            newExtracted.push({
-              id: Math.random().toString(36).substr(2, 9),
-              original: num,
-              formatted: num,
-              sourceImage: current.file.name
-            });
-            discoveredInObject++;
-          }
-        });
-
-        if (discoveredInObject > 0) {
-          addLog(`Success: Captured ${discoveredInObject} unique identities from object ${i+1}.`, 'success');
+        if (fresh.length > 0) {
+          const seen = fresh.filter(num => num.exportedBefore).length;
+          addLog(`Success: Captured ${fresh.length} unique identities from ${nameOf(id)}${seen > 0 ? ` (${seen} already exported)` : ''}.${cost}`, 'success', context);
         } else {
-          addLog(`Result: No new unique identifiers found in object ${i+1}.`, 'info');
+          addLog(`Result: No new unique identifiers found in ${nameOf(id)}.${cost}`, 'info', context);
+        }
+        patchUnit(id, { status: 'completed', progress: 100, error: undefined, usage });
+
+        const budget = budgetRef.current;
+        if (!budget.override && settled < batch.length && !queue.isPaused() && wouldExceedBudget(spent, metered, budget.limit, running.size)) {
+          queue.pause();
+          budget.halted = true;
+          setBatchPaused(true);
+          addLog(`BUDGET: ~${formatCost(spent.costUsd)} of ${formatCost(budget.limit)} spent; the objects in flight and the next one would exceed it. Batch paused.`, 'error', { batchId });
         }
+      },
+      onError: (id, error) => {
+        settled++;
+        running.delete(id);
+        addLog(`FAILURE: ${error.reason} on ${nameOf(id)} after ${error.attempts} attempt(s). Skipping.`, 'error', contextOf(id));
+        patchUnit(id, { status: 'error', error });
+      },
+      onPause: id => {
+        running.delete(id);
+        patchUnit(id, { status: 'paused' });
+      },
+      onResume: id => patchUnit(id, { status: 'pending' }),
+      onCancel: id => {
+        settled++;
+        running.delete(id);
+        patchUnit(id, { status: 'cancelled', progress: 0 });
+        addLog(`Cancelled: ${nameOf(id)}.`, 'info', contextOf(id));
+      },
+    });
+    queueRef.current = queue;
+
+    batch.forEach(unit => {
+      patchUnit(unit.id, { status: 'pending', progress: 0, error: undefined });
+      queue.add(unit.id, ({ acquire }) => extractUnit(unit, provider.id, contextOf(unit.id), acquire));
+    });
+
+    await queue.onIdle();
+
+    queueRef.current = null;
+    setIsProcessing(false);
+    setBatchPaused(false);
+    if (metered > 0) addLog(`Batch spend: ${formatUsage(spent)} over ${spent.calls} call(s).`, 'system', { batchId });
+    addLog('SEQUENCE COMPLETE. DATA BUFFER POPULATED.', 'system', { batchId });
+  };
+
+  const toggleBatchPause = () => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (queue.isPaused()) {
+      queue.resume();
+      // Resuming after a budget stop is an explicit decision to spend past the limit for this batch
+      if (budgetRef.current.halted) budgetRef.current.override = true;
+      addLog(budgetRef.current.override ? 'Batch resumed past the budget limit.' : 'Batch resumed.', 'system');
+    } else {
+      queue.pause();
+      addLog('Batch paused. In-flight objects will finish.', 'system');
+    }
+    setBatchPaused(queue.isPaused());
+  };
+
+  const cancelBatch = () => {
+    queueRef.current?.cancel();
+    addLog('Batch cancellation requested.', 'system');
+  };
+
+  const activeTemplate = templates.find(t => t.id === activeTemplateId) || DEFAULT_TEMPLATE;
+
+  const saveTemplate = (template: ExportTemplate) => {
+    const normalized = normalizeTemplate(template);
+    setTemplates(prev => prev.some(t => t.id === normalized.id)
+      ? prev.map(t => t.id === normalized.id ? normalized : t)
+      : [...prev, normalized]);
+  };
+
+  const deleteTemplate = (id: string) => {
+    if (id === DEFAULT_TEMPLATE.id) return;
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    setActiveTemplateId(DEFAULT_TEMPLATE.id);
+  };
+
+  const patchNumber = (id: string, changes: Partial<ExtractedNumber>) => {
+    setExtractedNumbers(prev => prev.map(n => n.id === id ? { ...n, ...changes } : n));
+  };
+
+  const updateNumberName = (id: string, name: string) => {
+    patchNumber(id, { name: name.trim() || undefined, edited: true });
+  };
+
+  const updateNumberValue = (id: string, value: string) => {
+    const parsed = parsePhoneNumber(value, phoneOptions);
+    if (!parsed) {
+      addLog(`Rejected edit: ${value} fails the numbering plan.`, 'error');
+      return;
+    }
+    if (extractedNumbers.some(n => n.id !== id && n.formatted === parsed.e164)) {
+      addLog(`Rejected edit: ${parsed.e164} is already in the buffer.`, 'error');
+      return;
+    }
+    const ledgerEntry = ledger.find(entry => entry.number === parsed.e164);
+    patchNumber(id, {
+      original: value,
+      formatted: parsed.e164,
+      region: parsed.region,
+      phoneType: parsed.type,
+      edited: true,
+      exportedBefore: ledgerEntry && lastExport(ledgerEntry)
+    });
+  };
+
+  const setReviewStatus = (ids: string[], reviewStatus: ReviewStatus) => {
+    setExtractedNumbers(prev => prev.map(n => ids.includes(n.id) ? { ...n, reviewStatus } : n));
+  };
+
+  const deleteNumber = (id: string) => {
+    setExtractedNumbers(prev => prev.filter(n => n.id !== id));
+  };
 
-        setFiles(prev => prev.map(f => f.id === current.id ? { ...f, status: 'completed', progress: 100 } : f));
+  const importedContacts = contactImports.flatMap(item => item.contacts);
+  const contactIndex = indexContacts(importedContacts);
+  const contactMatches = contactImports.length > 0
+    ? Object.fromEntries(extractedNumbers.map(n => [n.id, matchContact(n, contactIndex)]))
+    : undefined;
+
+  const handleContactImport = async (selected: File[]) => {
+    for (const file of selected) {
+      try {
+        const result = await importContactFile(file, phoneOptions);
+        setContactImports(prev => [...prev.filter(item => item.source !== result.source), result]);
+        addLog(`Address book loaded: ${file.name.toUpperCase()} (${result.contacts.length} contacts, ${result.skipped} without usable numbers).`, 'system');
       } catch (err) {
-        addLog(`FAILURE: Kernel error on object ${i+1}. Skipping.`, 'error');
-        setFiles(prev => prev.map(f => f.id === current.id ? { ...f, status: 'error', error: 'Process failed' } : f));
+        addLog(`FAILURE: Could not read address book ${file.name.toUpperCase()}.`, 'error');
       }
     }
-
-    setExtractedNumbers(prev => [...prev, ...newExtracted]);
-    setIsProcessing(false);
-    addLog('SEQUENCE COMPLETE. DATA BUFFER POPULATED.', 'system');
   };
 
+  const approved = approvedNumbers(extractedNumbers);
+  const mergeConflicts = approved.filter(n => contactMatches?.[n.id]?.status === 'conflict').length;
+  const exportable = exportScope === 'merged'
+    ? mergeWithContacts(approved, importedContacts, phoneOptions)
+    : selectForExport(approved, indexLedger(ledger), exportScope);
+
   const handleDownload = () => {
-    if (extractedNumbers.length === 0) return;
+    if (exportable.length === 0) return;
 
     const nextCount = downloadCount + 1;
-    const filename = `${nextCount}.csv`;
-    const csvContent = generateCSV(extractedNumbers.map(n => n.formatted));
-    
-    downloadCSV(csvContent, filename);
-
+    const format = getExportFormat(exportFormat);
+    const filename = `${nextCount}.${format.extension}`;
     const historyItem: DownloadHistory = {
       id: Math.random().toString(36).substr(2, 9),
       filename,
       timestamp: Date.now(),
-      count: extractedNumbers.length,
-      data: csvContent
+      count: exportable.length,
+      format: format.id,
+      usage: sumUsage([...new Set(exportable.map(n => n.sourceFileId))].map(id => files.find(f => f.id === id)?.usage)),
+      data: encodeArchive(format.generate(exportable, activeTemplate))
     };
+    
+    downloadArchive(historyItem);
 
-    setHistory(prev => [historyItem, ...prev].slice(0, 10));
+    setHistory(prev => [historyItem, ...prev]);
+    saveHistoryItem(historyItem).catch(() => addLog('WARNING: Archive not persisted.', 'error'));
+    // Address-book rows only pass through a merged export; the ledger tracks what this app extracted
+    const extracted = exportable.filter(n => n.matchedBy !== 'imported');
+    recordExport(extracted.map(n => n.formatted), filename, historyItem.timestamp)
+      .then(loadLedger)
+      .then(setLedger)
+      .catch(() => addLog('WARNING: Export ledger not updated.', 'error'));
     setDownloadCount(nextCount);
-    addLog(`Exported archive: ${filename} (Google Contacts Format).`, 'success');
+    const skipped = approved.length - extracted.length;
+    const skippedNote = skipped === 0 ? '' : exportScope === 'merged' ? `, ${skipped} already in the address book` : `, ${skipped} previously exported skipped`;
+    addLog(`Exported archive: ${filename} (${format.label}, template ${activeTemplate.name})${skippedNote}${historyItem.usage ? `, OCR spend ${formatUsage(historyItem.usage)}` : ''}.`, 'success');
+  };
+
+  const handlePruneLedger = async (numbers: string[]) => {
+    try {
+      await pruneLedger(numbers);
+      setLedger(await loadLedger());
+      addLog(`Ledger pruned: ${numbers.length} number(s) forgotten.`, 'system');
+    } catch (err) {
+      addLog('FAILURE: Export ledger could not be pruned.', 'error');
+    }
+  };
+
+  const unlockStore = async () => {
+    if (!(await unlockVault(unlockPassphrase))) {
+      addLog('ACCESS DENIED: Passphrase does not unlock the encrypted store.', 'error');
+      return;
+    }
+    setUnlockPassphrase('');
+    setVaultState('unlocked');
+    addLog('Encrypted store unlocked.', 'system');
+    await loadPersistentData();
+  };
+
+  const enableVault = async (passphrase: string) => {
+    try {
+      await createVault(passphrase);
+      setVaultState('unlocked');
+      const sealed = await encryptStoredData();
+      addLog(`Encryption enabled. ${sealed} stored record(s) re-written as ciphertext.`, 'system');
+    } catch (err) {
+      addLog('FAILURE: Stored data could not be encrypted.', 'error');
+    }
   };
 
-  const resetSystem = () => {
-    if (confirm("Confirm system wipe? All temporary buffer data will be purged.")) {
+  // Locking drops decrypted data from memory; the latest snapshot is sealed first so unlocking can resume it
+  const lockStore = async () => {
+    if (files.length > 0 || extractedNumbers.length > 0) {
+      const { id, createdAt } = sessionRef.current;
+      await saveSession(toSessionRecord(id, createdAt, files, extractedNumbers)).catch(() => undefined);
+    }
+    lockVault();
+    setVaultState('locked');
+    setPersistenceReady(false);
+    setFiles([]);
+    setExtractedNumbers([]);
+    setHistory([]);
+    setLedger([]);
+    setResumeCandidate(null);
+    setPreviewNumber(null);
+    addLog('Encrypted store locked. Buffer cleared from memory.', 'system');
+  };
+
+  const securePurge = async () => {
+    if (!confirm('Secure purge? Every archive, session, ledger entry, setting and the encryption key will be destroyed. This cannot be undone.')) return;
+    queueRef.current?.cancel();
+    try {
+      await purgeAllData(() => addLog('Secure purge waiting for other tabs of this app to close the database...', 'system'));
+      window.location.reload();
+    } catch (err) {
+      addLog('FAILURE: Secure purge did not complete.', 'error');
+    }
+  };
+
+  const resetSystem = async () => {
+    if (confirm("Confirm system wipe? The buffer, stored sessions and the export archive will be purged.")) {
+      queueRef.current?.cancel();
+      sessionRef.current = { id: Math.random().toString(36).substr(2, 9), createdAt: Date.now() };
       setFiles([]);
       setExtractedNumbers([]);
+      setContactImports([]);
+      setHistory([]);
+      setResumeCandidate(null);
       setIsProcessing(false);
+      await wipeWorkspaceData().catch(() => addLog('WARNING: Stored archive could not be wiped.', 'error'));
       addLog('CORE WIPE SUCCESSFUL. SYSTEM RESET.', 'system');
     }
   };
@@ -187,6 +727,53 @@ const App: React.FC = () => {
         
         {/* Left Column: Command & Input */}
         <div className="lg:col-span-5 space-y-8">
+
+          {vaultState === 'locked' && (
+            <div className="glass rounded-3xl p-6 border border-emerald-500/30 animate-in fade-in duration-500">
+              <p className="text-[10px] font-black text-emerald-500 uppercase tracking-widest mb-1">Encrypted Store Locked</p>
+              <p className="text-[10px] text-slate-400 mono mb-4">History, sessions and the export ledger stay sealed until unlocked.</p>
+              <div className="flex gap-3">
+                <input
+                  type="password"
+                  value={unlockPassphrase}
+                  onChange={e => setUnlockPassphrase(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && unlockStore()}
+                  placeholder="Passphrase"
+                  className="flex-1 bg-slate-900/60 border border-slate-800 rounded-2xl px-4 py-3 text-[10px] text-slate-300 mono"
+                />
+                <button
+                  onClick={unlockStore}
+                  disabled={!unlockPassphrase}
+                  className="px-6 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-30 transition-all"
+                >
+                  Unlock
+                </button>
+              </div>
+            </div>
+          )}
+
+          {resumeCandidate && (
+            <div className="glass rounded-3xl p-6 border border-amber-500/30 animate-in fade-in duration-500">
+              <p className="text-[10px] font-black text-amber-500 uppercase tracking-widest mb-1">Unfinished Session Detected</p>
+              <p className="text-[10px] text-slate-400 mono mb-4">
+                {new Date(resumeCandidate.updatedAt).toLocaleString()} // {resumeCandidate.files.length} objects // {resumeCandidate.numbers.length} identities
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={resumeSession}
+                  className="py-3 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] bg-indigo-600 hover:bg-indigo-500 text-white transition-all"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={discardSession}
+                  className="py-3 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] border border-slate-800 bg-slate-900/60 text-slate-400 hover:text-white transition-all"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
           
           {/* Upload Area */}
           <div className="glass rounded-3xl p-1 relative overflow-hidden group border border-slate-800/50 hover:border-indigo-500/30 transition-all duration-500">
@@ -194,9 +781,9 @@ const App: React.FC = () => {
               <input 
                 type="file" 
                 multiple 
-                accept="image/*" 
+                accept="image/*,application/pdf,.pdf,.tif,.tiff" 
                 onChange={handleFileUpload}
-                disabled={isProcessing}
+                disabled={isProcessing || Boolean(resumeCandidate) || vaultState === 'locked'}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
               />
               <div className="p-6 bg-indigo-500/10 rounded-2xl mb-4 border border-indigo-500/20 group-hover:scale-110 transition-transform duration-500 group-hover:bg-indigo-500/20">
@@ -207,19 +794,116 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          <OcrSettingsPanel
+            providers={listOcrProviders()}
+            selectedId={ocrProviderId}
+            onSelect={setOcrProviderId}
+            extractionMode={extractionMode}
+            onModeChange={setExtractionMode}
+            queueSettings={queueSettings}
+            onQueueChange={setQueueSettings}
+            disabled={isProcessing}
+          />
+
+          <UsagePanel
+            batchUsage={batchUsage}
+            budgetUsd={batchBudget}
+            onBudgetChange={setBatchBudget}
+            prices={priceTable}
+            onPricesChange={setPriceTable}
+            disabled={isProcessing}
+          />
+
+          <RegionSettingsPanel
+            options={phoneOptions}
+            onChange={setPhoneOptions}
+            disabled={isProcessing}
+          />
+
+          <ExtractorSettingsPanel
+            enabled={entityTypes}
+            onChange={setEntityTypes}
+            disabled={isProcessing}
+          />
+
+          <PreprocessSettingsPanel
+            options={preprocessOptions}
+            onChange={setPreprocessOptions}
+            disabled={isProcessing}
+          />
+
+          <TemplateEditor
+            templates={templates}
+            activeId={activeTemplate.id}
+            onSelect={setActiveTemplateId}
+            onSave={saveTemplate}
+            onDelete={deleteTemplate}
+            sample={extractedNumbers[0]}
+            disabled={isProcessing}
+          />
+
+          <SecurityPanel
+            vaultState={vaultState}
+            onEnableVault={enableVault}
+            onLock={lockStore}
+            retentionDays={retentionDays}
+            onRetentionChange={setRetentionDays}
+            maskNumbers={maskNumbers}
+            onMaskChange={setMaskNumbers}
+            onPurge={securePurge}
+            disabled={isProcessing}
+          />
+
+          <ContactImportPanel
+            imports={contactImports}
+            matches={contactMatches ? Object.values(contactMatches) : []}
+            onImport={handleContactImport}
+            onRemove={source => setContactImports(prev => prev.filter(item => item.source !== source))}
+            disabled={isProcessing}
+          />
+
           {/* Core Status & Export */}
           <div className="glass p-8 rounded-3xl relative overflow-hidden border border-slate-800 shadow-2xl">
             <div className="flex items-center justify-between mb-8">
               <div>
                 <p className="text-[10px] font-bold text-slate-500 mono uppercase tracking-widest mb-1">Identified Targets</p>
                 <h3 className="text-6xl font-black text-white tracking-tighter">{extractedNumbers.length.toString().padStart(2, '0')}</h3>
+                <p className="text-[9px] font-bold text-emerald-500/70 mono uppercase tracking-widest mt-1">{approved.length} Approved For Export</p>
+                {exportScope === 'new-only' && (
+                  <p className="text-[9px] font-bold text-indigo-400/70 mono uppercase tracking-widest mt-0.5">{exportable.length} New Since Last Export</p>
+                )}
+                {exportScope === 'merged' && (
+                  <p className="text-[9px] font-bold text-indigo-400/70 mono uppercase tracking-widest mt-0.5">{exportable.length} Rows In Merged Address Book</p>
+                )}
+                {exportScope === 'merged' && mergeConflicts > 0 && (
+                  <p className="text-[9px] font-bold text-amber-500/80 mono uppercase tracking-widest mt-0.5">{mergeConflicts} Name Conflicts // Address Book Name Kept</p>
+                )}
               </div>
               <div className="p-4 bg-indigo-500/10 border border-indigo-500/20 rounded-2xl animate-pulse">
                 <ShieldCheck className="w-8 h-8 text-indigo-500" />
               </div>
             </div>
 
-            {files.length > 0 && !isProcessing && extractedNumbers.length === 0 && (
+            {isProcessing && (
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <button
+                  onClick={toggleBatchPause}
+                  className="py-3 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] border border-slate-800 bg-slate-900/60 text-slate-300 hover:border-indigo-500/40 transition-all flex items-center justify-center gap-2"
+                >
+                  {batchPaused ? <Play size={12} /> : <Pause size={12} />}
+                  {batchPaused ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  onClick={cancelBatch}
+                  className="py-3 rounded-2xl font-black text-[10px] uppercase tracking-[0.2em] border border-red-900/30 bg-red-950/20 text-red-500 hover:bg-red-900/40 transition-all flex items-center justify-center gap-2"
+                >
+                  <X size={12} />
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {!isProcessing && collectWorkUnits(files).length > 0 && (
               <button 
                 onClick={processAll}
                 className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-black text-xs uppercase tracking-[0.2em] transition-all shadow-2xl shadow-indigo-900/30 mb-4 flex items-center justify-center gap-3 group"
@@ -229,11 +913,39 @@ const App: React.FC = () => {
               </button>
             )}
 
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Archive Format</span>
+              <select
+                value={exportFormat}
+                onChange={e => setExportFormat(e.target.value as ExportFormatId)}
+                disabled={isProcessing}
+                className="bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-300 mono uppercase"
+              >
+                {listExportFormats().map(format => (
+                  <option key={format.id} value={format.id}>{format.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Export Scope</span>
+              <select
+                value={exportScope}
+                onChange={e => setExportScope(e.target.value as ExportScope)}
+                disabled={isProcessing}
+                className="bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-300 mono uppercase"
+              >
+                {EXPORT_SCOPES.map(scope => (
+                  <option key={scope.id} value={scope.id}>{scope.label}</option>
+                ))}
+              </select>
+            </div>
+
             <button 
               onClick={handleDownload}
-              disabled={extractedNumbers.length === 0 || isProcessing}
+              disabled={exportable.length === 0 || isProcessing}
               className={`w-full py-5 rounded-2xl font-black text-xs uppercase tracking-[0.2em] transition-all flex items-center justify-center gap-3 ${
-                extractedNumbers.length > 0 && !isProcessing 
+                exportable.length > 0 && !isProcessing 
                 ? 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-2xl shadow-emerald-900/30' 
                 : 'bg-slate-900 text-slate-700 border border-slate-800 cursor-not-allowed'
               }`}
@@ -262,12 +974,59 @@ const App: React.FC = () => {
               </div>
               <div className="space-y-2">
                 {files.map(f => (
-                  <div key={f.id} className="flex items-center justify-between text-[10px] font-mono border-b border-slate-800/50 pb-2">
-                    <span className="text-slate-400 truncate max-w-[150px]">{f.file.name}</span>
-                    <span className={`uppercase ${f.status === 'completed' ? 'text-emerald-500' : f.status === 'error' ? 'text-red-500' : 'text-slate-600 animate-pulse'}`}>
-                      {f.status}
+                  <React.Fragment key={f.id}>
+                  <div className="flex items-center justify-between text-[10px] font-mono border-b border-slate-800/50 pb-2 gap-2">
+                    <span className="text-slate-400 truncate max-w-[150px]" title={f.error ? `${f.error.reason}: ${f.error.message}` : undefined}>
+                      {f.file.name}{f.pages ? ` [${f.pages.length}P]` : ''}
                     </span>
+                    <div className="flex items-center gap-2">
+                      {f.duplicateOf && (
+                        <span
+                          className="uppercase text-amber-500"
+                          title={`${f.duplicateOf.kind === 'exact' ? 'Identical to' : `Looks like (${f.duplicateOf.distance} bit(s) apart)`} ${f.duplicateOf.fileName}`}
+                        >
+                          {f.duplicateOf.kind === 'exact' ? 'Dup' : 'Near-dup'}
+                        </span>
+                      )}
+                      {f.usage && (
+                        <span className="text-slate-600 tabular-nums" title={`${f.usage.promptTokens.toLocaleString()} in / ${f.usage.outputTokens.toLocaleString()} out // ~${formatCost(f.usage.costUsd)}`}>
+                          {f.usage.totalTokens.toLocaleString()} tok
+                        </span>
+                      )}
+                      <span className={`uppercase ${STATUS_CLASSES[f.status]}`}>
+                        {f.status === 'error' && f.error ? f.error.reason.replace('_', ' ') : f.status}
+                      </span>
+                      {isProcessing && (f.status === 'pending' || f.status === 'processing') && (
+                        <button onClick={() => unitIdsOf(f).forEach(id => queueRef.current?.pause(id))} title="Pause" className="text-slate-600 hover:text-indigo-400">
+                          <Pause size={10} />
+                        </button>
+                      )}
+                      {isProcessing && f.status === 'paused' && (
+                        <button onClick={() => unitIdsOf(f).forEach(id => queueRef.current?.resume(id))} title="Resume" className="text-slate-600 hover:text-indigo-400">
+                          <Play size={10} />
+                        </button>
+                      )}
+                      {isProcessing && (f.status === 'pending' || f.status === 'processing' || f.status === 'paused') && (
+                        <button onClick={() => unitIdsOf(f).forEach(id => queueRef.current?.cancel(id))} title="Cancel" className="text-slate-600 hover:text-red-400">
+                          <X size={10} />
+                        </button>
+                      )}
+                      {!isProcessing && f.status !== 'completed' && (
+                        <button onClick={() => removeFile(f)} title="Remove" className="text-slate-600 hover:text-red-400">
+                          <Trash2 size={10} />
+                        </button>
+                      )}
+                    </div>
                   </div>
+                  {f.pages?.map(p => (
+                    <div key={p.id} className="flex items-center justify-between text-[9px] font-mono pl-4 text-slate-600">
+                      <span title={p.error ? `${p.error.reason}: ${p.error.message}` : undefined}>PAGE {p.pageNumber}</span>
+                      <span className={`uppercase ${STATUS_CLASSES[p.status]}`}>
+                        {p.status === 'error' && p.error ? p.error.reason.replace('_', ' ') : p.status}
+                      </span>
+                    </div>
+                  ))}
+                  </React.Fragment>
                 ))}
               </div>
             </div>
@@ -276,53 +1035,51 @@ const App: React.FC = () => {
 
         {/* Right Column: Kernel Stream & Archive */}
         <div className="lg:col-span-7 space-y-8 flex flex-col">
+
+          {extractedNumbers.length > 0 && (
+            <ReviewWorkspace
+              numbers={extractedNumbers}
+              onUpdateName={updateNumberName}
+              onUpdateNumber={updateNumberValue}
+              onSetStatus={setReviewStatus}
+              onDelete={deleteNumber}
+              onPreview={setPreviewNumber}
+              contactMatches={contactMatches}
+              mask={maskNumbers}
+              disabled={isProcessing}
+            />
+          )}
           
-          <div className="glass rounded-3xl overflow-hidden flex flex-col flex-1 border border-slate-800 shadow-2xl min-h-[400px]">
-            <div className="bg-slate-950/80 p-4 border-b border-slate-800 flex justify-between items-center">
-              <div className="flex items-center gap-3">
-                <Terminal className="w-4 h-4 text-indigo-500" />
-                <span className="text-[10px] font-bold text-slate-400 font-mono tracking-widest uppercase">System Core Output</span>
-              </div>
-              <div className="flex gap-1.5">
-                <div className="w-2 h-2 rounded-full bg-slate-800"></div>
-                <div className="w-2 h-2 rounded-full bg-slate-800"></div>
-                <div className="w-2 h-2 rounded-full bg-slate-800"></div>
-              </div>
-            </div>
-            
-            <div className="flex-1 p-6 font-mono text-[11px] overflow-y-auto space-y-2 bg-black/50 scrollbar-hide">
-              {logs.map((log, idx) => (
-                <div key={idx} className={`animate-in fade-in slide-in-from-left-2 duration-300 border-l-2 pl-3 py-0.5 ${
-                  log.type === 'success' ? 'text-emerald-400 border-emerald-900/50' : 
-                  log.type === 'error' ? 'text-red-400 border-red-900/50' : 
-                  log.type === 'system' ? 'text-indigo-400 border-indigo-900/50' : 'text-slate-500 border-slate-800'
-                }`}>
-                  <span className="opacity-30 mr-2 tabular-nums">[{new Date().toLocaleTimeString([], {hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit'})}]</span>
-                  <span className={`${log.type === 'system' ? 'font-black' : 'font-medium'}`}>>> {log.msg.toUpperCase()}</span>
-                </div>
-              ))}
-              <div ref={logsEndRef} />
-            </div>
-          </div>
+          <EventLogPanel events={logs} mask={maskNumbers} phoneOptions={phoneOptions} />
 
           {/* History / Recent Exports */}
           {history.length > 0 && (
             <div className="glass rounded-3xl p-6 border border-slate-800 animate-in fade-in slide-in-from-bottom-4 duration-500">
-              <div className="flex items-center gap-2 mb-4">
-                <History size={16} className="text-indigo-500" />
-                <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Extraction Archive</span>
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <div className="flex items-center gap-2">
+                  <History size={16} className="text-indigo-500" />
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Extraction Archive</span>
+                  <span className="text-[9px] font-bold text-slate-600 mono">{history.length}</span>
+                </div>
+                <input
+                  value={historyQuery}
+                  onChange={e => setHistoryQuery(e.target.value)}
+                  placeholder="Search name, date, number..."
+                  className="bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-1 text-[10px] text-slate-300 mono w-48"
+                />
               </div>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                {history.map(item => (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-72 overflow-y-auto scrollbar-hide">
+                {searchHistory(history, historyQuery).map(item => (
                   <div key={item.id} className="flex items-center justify-between p-3 bg-slate-900/40 rounded-xl border border-slate-800/50 hover:border-indigo-500/40 transition-all group backdrop-blur-sm">
                     <div className="min-w-0">
                       <p className="text-[11px] font-bold text-slate-300 truncate">{item.filename}</p>
                       <p className="text-[9px] font-bold text-slate-600 uppercase tracking-tighter mt-0.5 font-mono">
-                        {item.count} IDENTITIES CAPTURED
+                        {item.count} IDENTITIES CAPTURED // {getExportFormat(item.format).label} // {new Date(item.timestamp).toLocaleDateString()}
+                        {item.usage ? ` // ${formatUsage(item.usage)}` : ''}
                       </p>
                     </div>
                     <button 
-                      onClick={() => downloadCSV(item.data, item.filename)}
+                      onClick={() => downloadArchive(item)}
                       className="p-2 text-indigo-400 hover:text-white hover:bg-indigo-600 rounded-lg transition-all shadow-lg"
                     >
                       <Download size={14} />
@@ -332,9 +1089,25 @@ const App: React.FC = () => {
               </div>
             </div>
           )}
+
+          {ledger.length > 0 && (
+            <LedgerPanel entries={ledger} onPrune={handlePruneLedger} mask={maskNumbers} disabled={isProcessing} />
+          )}
         </div>
       </main>
 
+      {previewNumber && (
+        <SourcePreview
+          number={previewNumber}
+          previewUrl={(() => {
+            const source = files.find(f => f.id === previewNumber.sourceFileId);
+            return source?.pages?.find(p => p.pageNumber === previewNumber.sourcePage)?.previewUrl || source?.previewUrl;
+          })()}
+          mask={maskNumbers}
+          onClose={() => setPreviewNumber(null)}
+        />
+      )}
+
       <footer className="max-w-6xl mx-auto w-full pt-12 pb-8 text-center text-slate-700 text-[9px] font-black uppercase tracking-[0.5em] opacity-30">
         OmniExtract Pro // Engine Revision 4.2.0 // Secure Extraction Shield Active
       </footer>
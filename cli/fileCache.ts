@@ -0,0 +1,20 @@
+// Implement an on-disk OCR cache so repeated CLI runs over a folder skip recognised images
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { OcrCache, OcrResult } from '../core';
+
+// Keys contain ':' and '/', so each entry is stored under a digest of its key
+const entryPath = (dir: string, key: string): string =>
+  join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+export const createFileOcrCache = (dir: string): OcrCache => ({
+  get: async key => {
+    const raw = await readFile(entryPath(dir, key), 'utf8').catch(() => null);
+    return raw ? (JSON.parse(raw) as { result: OcrResult }).result : undefined;
+  },
+  set: async (key, result) => {
+    await mkdir(dir, { recursive: true });
+    await writeFile(entryPath(dir, key), JSON.stringify({ key, createdAt: Date.now(), result }));
+  },
+});
@@ -0,0 +1,87 @@
+// Implement directory and glob expansion for the batch extraction CLI
+import { readdir, stat } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+
+// Formats the OCR providers accept as-is; PDF and TIFF need the browser renderer
+export const SUPPORTED_IMAGE = /\.(jpe?g|png|webp|heic|heif)$/i;
+
+const hasMagic = (segment: string): boolean => /[*?[]/.test(segment);
+
+const toPosix = (path: string): string => path.split(sep).join('/');
+
+// Supports "*", "?", "[...]" and "**" (any depth, including none)
+export const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '(?:.*/)?';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i);
+      source += end > i ? glob.slice(i, end + 1) : '\\[';
+      i = end > i ? end : i;
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string, recursive: boolean): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const paths: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) paths.push(...(await walk(path, recursive)));
+    } else if (entry.isFile()) {
+      paths.push(path);
+    }
+  }
+  return paths;
+};
+
+const expandGlob = async (pattern: string): Promise<string[]> => {
+  const segments = toPosix(pattern).split('/');
+  const firstMagic = segments.findIndex(hasMagic);
+  const base = segments.slice(0, firstMagic).join('/') || '.';
+  const matcher = globToRegExp(segments.slice(firstMagic).join('/'));
+  const deep = segments.length - firstMagic > 1 || pattern.includes('**');
+  const candidates = await walk(base, deep).catch(() => []);
+  return candidates.filter(path => matcher.test(toPosix(relative(base, path))));
+};
+
+export interface ExpandedInputs {
+  files: string[];
+  // Explicit paths, not globs, that do not exist
+  missing: string[];
+}
+
+/**
+ * Resolves CLI inputs to a sorted, de-duplicated list of files. Directories
+ * yield their supported images; explicit files are kept even when unsupported
+ * and explicit paths that do not exist are returned separately, so the caller
+ * can report both.
+ */
+export const expandInputs = async (inputs: string[], recursive: boolean): Promise<ExpandedInputs> => {
+  const files = new Set<string>();
+  const missing: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (info?.isDirectory()) {
+      (await walk(input, recursive)).filter(path => SUPPORTED_IMAGE.test(path)).forEach(path => files.add(path));
+    } else if (info?.isFile()) {
+      files.add(input);
+    } else if (hasMagic(input)) {
+      (await expandGlob(input)).forEach(path => files.add(path));
+    } else {
+      missing.push(input);
+    }
+  }
+  return { files: [...files].sort(), missing };
+};
@@ -0,0 +1,308 @@
+// Implement the headless batch extraction CLI over directories and globs
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  ALL_ENTITY_TYPES,
+  ALL_REGIONS,
+  DEFAULT_EXPORT_FORMAT,
+  DEFAULT_PHONE_OPTIONS,
+  DEFAULT_PRICE_TABLE,
+  DEFAULT_QUEUE_SETTINGS,
+  DEFAULT_TEMPLATE,
+  EntityType,
+  ExportFormatId,
+  ExportTemplate,
+  ExtractedNumber,
+  ExtractionMode,
+  ExtractionResult,
+  LogContext,
+  LogEvent,
+  LogLevel,
+  PhoneParseOptions,
+  PriceTable,
+  QueueSettings,
+  RegionCode,
+  UsageStats,
+  EMPTY_USAGE,
+  addUsage,
+  createJobQueue,
+  createLogEvent,
+  extractFromSource,
+  formatCost,
+  formatDurations,
+  formatUsage,
+  getExportFormat,
+  getOcrProvider,
+  listExportFormats,
+  listOcrProviders,
+  normalizeTemplate,
+  toExtractedNumbers,
+  toJSONL,
+  wouldExceedBudget,
+} from '../core';
+import { createFileOcrCache } from './fileCache';
+import { SUPPORTED_IMAGE, expandInputs } from './inputs';
+
+const EXIT_OK = 0;
+const EXIT_PARTIAL = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILED = 3;
+
+const USAGE = `Usage: npm run extract -- <dir|glob>... [options]
+
+  -p, --provider <id>    OCR provider: ${listOcrProviders().map(p => p.id).join(', ')} [gemini]
+  -m, --mode <mode>      text | structured [text]
+  -f, --format <id>      ${listExportFormats().map(f => f.id).join(' | ')} [${DEFAULT_EXPORT_FORMAT}]
+  -o, --out <file>       Output file; text formats go to stdout when omitted
+  -r, --recursive        Descend into subdirectories of directory inputs
+  -c, --cache-dir <dir>  Reuse OCR results for identical images across runs
+  -l, --log <file>       Write every event as JSONL, with timings, for audits
+  -b, --budget <usd>     Stop dispatching once the next file would push the estimated cost past this [no limit]
+      --prices <file>    JSON price table merged over the built-in one: {"model": {"inputPerMillion": n, "outputPerMillion": n}}
+  -e, --entities <list>  Comma-separated extractors besides phone: ${ALL_ENTITY_TYPES.filter(t => t !== 'phone').join(',')} [all]
+      --region <code>    Region for numbers without a country code [${DEFAULT_PHONE_OPTIONS.defaultRegion}]
+      --regions <list>   Comma-separated accepted regions [${ALL_REGIONS.join(',')}]
+      --concurrency <n>  Parallel OCR requests [${DEFAULT_QUEUE_SETTINGS.concurrency}]
+      --rpm <n>          Requests per minute [${DEFAULT_QUEUE_SETTINGS.requestsPerMinute}]
+      --retries <n>      Retries for transient failures [${DEFAULT_QUEUE_SETTINGS.maxRetries}]
+  -q, --quiet            Only print errors
+  -h, --help             Show this help
+
+Gemini reads its key from GEMINI_API_KEY (or API_KEY).
+Exit codes: 0 every file processed, 1 some files failed or were missing, 2 invalid usage or no inputs, 3 nothing processed.`;
+
+class UsageError extends Error {}
+
+const positiveInt = (value: string | undefined, fallback: number, flag: string): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new UsageError(`--${flag} expects a non-negative integer, got "${value}"`);
+  return parsed;
+};
+
+const parseRegion = (value: string): RegionCode => {
+  const region = value.trim().toUpperCase() as RegionCode;
+  if (!ALL_REGIONS.includes(region)) throw new UsageError(`Unknown region "${value}". Known: ${ALL_REGIONS.join(', ')}`);
+  return region;
+};
+
+const parseCli = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', short: 'p', default: 'gemini' },
+      mode: { type: 'string', short: 'm', default: 'text' },
+      format: { type: 'string', short: 'f', default: DEFAULT_EXPORT_FORMAT },
+      out: { type: 'string', short: 'o' },
+      recursive: { type: 'boolean', short: 'r', default: false },
+      'cache-dir': { type: 'string', short: 'c' },
+      entities: { type: 'string', short: 'e' },
+      log: { type: 'string', short: 'l' },
+      budget: { type: 'string', short: 'b' },
+      prices: { type: 'string' },
+      region: { type: 'string' },
+      regions: { type: 'string' },
+      concurrency: { type: 'string' },
+      rpm: { type: 'string' },
+      retries: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.mode !== 'text' && values.mode !== 'structured') throw new UsageError(`--mode must be text or structured`);
+  if (!listExportFormats().some(f => f.id === values.format)) throw new UsageError(`Unknown format "${values.format}"`);
+  const format = getExportFormat(values.format as ExportFormatId);
+  if (format.binary && !values.out) throw new UsageError(`${format.label} is binary; pass --out <file>`);
+
+  const allowedRegions = values.regions ? values.regions.split(',').map(parseRegion) : DEFAULT_PHONE_OPTIONS.allowedRegions;
+  const defaultRegion = values.region ? parseRegion(values.region) : allowedRegions.includes(DEFAULT_PHONE_OPTIONS.defaultRegion) ? DEFAULT_PHONE_OPTIONS.defaultRegion : allowedRegions[0];
+  if (!allowedRegions.includes(defaultRegion)) throw new UsageError(`--region ${defaultRegion} is not in --regions`);
+  const phoneOptions: PhoneParseOptions = { defaultRegion, allowedRegions };
+
+  const budgetUsd = values.budget === undefined ? 0 : Number(values.budget);
+  if (!Number.isFinite(budgetUsd) || budgetUsd < 0) throw new UsageError(`--budget expects a non-negative amount in USD, got "${values.budget}"`);
+
+  const entityTypes: EntityType[] = ['phone'];
+  for (const value of values.entities !== undefined ? values.entities.split(',').map(v => v.trim()).filter(Boolean) : ALL_ENTITY_TYPES) {
+    if (!ALL_ENTITY_TYPES.includes(value as EntityType)) throw new UsageError(`Unknown extractor "${value}". Known: ${ALL_ENTITY_TYPES.join(', ')}`);
+    if (!entityTypes.includes(value as EntityType)) entityTypes.push(value as EntityType);
+  }
+  // Email and organisation columns follow the extractors; UPI IDs travel in the notes
+  const template: ExportTemplate = normalizeTemplate({
+    ...DEFAULT_TEMPLATE,
+    columns: [
+      ...DEFAULT_TEMPLATE.columns,
+      ...(entityTypes.includes('email') ? ['email' as const] : []),
+      ...(entityTypes.includes('organization') ? ['organization' as const] : []),
+      ...(entityTypes.includes('upi') ? ['notes' as const] : []),
+    ],
+  });
+
+  const queueSettings: QueueSettings = {
+    concurrency: Math.max(1, positiveInt(values.concurrency, DEFAULT_QUEUE_SETTINGS.concurrency, 'concurrency')),
+    requestsPerMinute: Math.max(1, positiveInt(values.rpm, DEFAULT_QUEUE_SETTINGS.requestsPerMinute, 'rpm')),
+    maxRetries: positiveInt(values.retries, DEFAULT_QUEUE_SETTINGS.maxRetries, 'retries'),
+  };
+
+  return {
+    inputs: positionals,
+    providerId: values.provider as string,
+    mode: values.mode as ExtractionMode,
+    format,
+    out: values.out,
+    recursive: Boolean(values.recursive),
+    cacheDir: values['cache-dir'],
+    logFile: values.log,
+    budgetUsd,
+    pricesFile: values.prices,
+    quiet: Boolean(values.quiet),
+    help: Boolean(values.help),
+    phoneOptions,
+    entityTypes,
+    template,
+    queueSettings,
+  };
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  let options: ReturnType<typeof parseCli>;
+  try {
+    options = parseCli(argv);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  const events: LogEvent[] = [];
+  // Errors always reach stderr; everything else is silenced by --quiet but still recorded for --log
+  const log = (msg: string, level: LogLevel = 'info', context?: LogContext) => {
+    events.push(createLogEvent(msg, level, context));
+    if (level === 'error' || !options.quiet) console.error(msg);
+  };
+
+  // The browser build injects API_KEY at bundle time; from a shell it comes from the environment
+  // Assigning undefined would store the string "undefined" and make Gemini look configured
+  if (process.env.GEMINI_API_KEY) process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+  let provider;
+  try {
+    provider = getOcrProvider(options.providerId);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (!provider.isAvailable()) {
+    console.error(`OCR provider ${provider.label} is unavailable in this environment.`);
+    return EXIT_FAILED;
+  }
+
+  let prices: PriceTable = DEFAULT_PRICE_TABLE;
+  if (options.pricesFile) {
+    try {
+      prices = { ...DEFAULT_PRICE_TABLE, ...(JSON.parse(await readFile(options.pricesFile, 'utf8')) as PriceTable) };
+    } catch (err) {
+      console.error(`Could not read price table ${options.pricesFile}: ${(err as Error).message}`);
+      return EXIT_USAGE;
+    }
+  }
+
+  const batchId = Math.random().toString(36).substr(2, 9);
+  const contextOf = (path: string): LogContext => ({ batchId, fileId: path, fileName: basename(path) });
+  const { files, missing } = await expandInputs(options.inputs, options.recursive);
+  missing.forEach(path => log(`MISSING ${path}: no such file or directory`, 'error', contextOf(path)));
+  if (files.length === 0) {
+    console.error(`No input images found.\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const supported = files.filter(path => SUPPORTED_IMAGE.test(path));
+  // A path that does not exist counts as a failed input, so a typo never passes as a clean run
+  let failed = missing.length + files.length - supported.length;
+  files.filter(path => !SUPPORTED_IMAGE.test(path)).forEach(path => log(`SKIP ${path}: unsupported file type`, 'error', contextOf(path)));
+  log(`Extracting ${supported.length} file(s) with ${provider.label} (${options.mode} mode).`, 'system', { batchId });
+
+  const numbers: ExtractedNumber[] = [];
+  const known = new Set<string>();
+  const cache = options.cacheDir ? createFileOcrCache(options.cacheDir) : undefined;
+  let spent: UsageStats = EMPTY_USAGE;
+  let metered = 0;
+  const inFlight = new Set<string>();
+  const queue = createJobQueue<ExtractionResult>(options.queueSettings, {
+    onStart: path => inFlight.add(path),
+    onRetry: (path, error, delayMs) => {
+      inFlight.delete(path);
+      log(`RETRY ${path}: ${error.reason}, waiting ${(delayMs / 1000).toFixed(1)}s`, 'info', contextOf(path));
+    },
+    onSuccess: (path, { numbers: found, cached, durations, usage }) => {
+      inFlight.delete(path);
+      const fresh = toExtractedNumbers(found, { sourceImage: basename(path), sourceFileId: path }, known);
+      numbers.push(...fresh);
+      log(`OK    ${path}: ${fresh.length} new number(s)${cached ? ' (cached)' : ''} [${formatDurations(durations)}${usage ? `, ${formatUsage(usage)}` : ''}]`, 'success', { ...contextOf(path), durations });
+      if (!usage) return;
+      spent = addUsage(spent, usage);
+      metered++;
+      if (!queue.isPaused() && wouldExceedBudget(spent, metered, options.budgetUsd, inFlight.size)) {
+        // There is no one to resume the run, so files not yet started are dropped and in-flight ones finish
+        log(`BUDGET: ~${formatCost(spent.costUsd)} of ${formatCost(options.budgetUsd)} spent; skipping the remaining files.`, 'error', { batchId });
+        queue.pause();
+        supported.filter(other => !inFlight.has(other)).forEach(other => queue.cancel(other));
+      }
+    },
+    onError: (path, error) => {
+      inFlight.delete(path);
+      failed++;
+      log(`FAIL  ${path}: ${error.reason} after ${error.attempts} attempt(s): ${error.message}`, 'error', contextOf(path));
+    },
+    onCancel: path => {
+      inFlight.delete(path);
+      failed++;
+      log(`CANCEL ${path}`, 'error', contextOf(path));
+    },
+  });
+
+  const interrupt = () => queue.cancel();
+  process.once('SIGINT', interrupt);
+  supported.forEach(path =>
+    queue.add(path, async () =>
+      extractFromSource(new Blob([await readFile(path)]), {
+        providerId: provider.id,
+        mode: options.mode,
+        phoneOptions: options.phoneOptions,
+        entityTypes: options.entityTypes,
+        prices,
+        cache,
+      })
+    )
+  );
+  await queue.onIdle();
+  process.off('SIGINT', interrupt);
+
+  if (metered > 0) log(`Spend: ${formatUsage(spent)} over ${spent.calls} call(s).`, 'system', { batchId });
+
+  const content = options.format.generate(numbers, options.template);
+  if (options.out) {
+    await writeFile(options.out, content);
+    log(`Wrote ${numbers.length} number(s) to ${options.out} (${options.format.label}).`, 'system', { batchId });
+  } else {
+    process.stdout.write(content as string);
+    if (content) process.stdout.write('\n');
+  }
+  if (options.logFile) await writeFile(options.logFile, toJSONL(events));
+
+  if (failed === files.length + missing.length) return EXIT_FAILED;
+  return failed > 0 ? EXIT_PARTIAL : EXIT_OK;
+};
+
+run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(err => {
+    console.error(err instanceof Error ? err.stack || err.message : err);
+    process.exitCode = EXIT_FAILED;
+  });
@@ -0,0 +1,82 @@
+// Implement the address book import panel and its new/known/conflict summary
+import React from 'react';
+import { BookUser, X } from 'lucide-react';
+import { ContactImportResult, ContactMatch, ContactMatchStatus } from '../types';
+
+interface ContactImportPanelProps {
+  imports: ContactImportResult[];
+  matches: ContactMatch[];
+  onImport: (files: File[]) => void;
+  onRemove: (source: string) => void;
+  disabled?: boolean;
+}
+
+export const CONTACT_MATCH_STYLES: Record<ContactMatchStatus, string> = {
+  new: 'text-emerald-500',
+  known: 'text-slate-500',
+  conflict: 'text-amber-500',
+};
+
+const ContactImportPanel: React.FC<ContactImportPanelProps> = ({ imports, matches, onImport, onRemove, disabled }) => {
+  const counts = (['new', 'known', 'conflict'] as ContactMatchStatus[]).map(status => ({
+    status,
+    count: matches.filter(m => m.status === status).length,
+  }));
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <BookUser size={14} className="text-slate-500" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Address Book</span>
+        </div>
+        <label className={`text-[9px] font-bold uppercase tracking-widest mono px-3 py-1 rounded-full border border-indigo-900/40 text-indigo-400 transition-all ${disabled ? 'opacity-30' : 'hover:bg-indigo-900/30 cursor-pointer'}`}>
+          Import CSV / vCard
+          <input
+            type="file"
+            multiple
+            accept=".csv,.vcf,text/csv,text/vcard"
+            disabled={disabled}
+            onChange={e => {
+              onImport(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {imports.length === 0 ? (
+        <p className="text-[9px] text-slate-600 mono uppercase tracking-widest">
+          Load Google/Outlook CSV or vCard exports to see which numbers are new.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-1 mb-3">
+            {imports.map(item => (
+              <div key={item.source} className="flex items-center justify-between text-[10px] font-mono border-b border-slate-800/50 pb-1">
+                <span className="text-slate-400 truncate max-w-[180px]">{item.source}</span>
+                <span className="flex items-center gap-2 text-slate-600">
+                  {item.contacts.length} contacts{item.skipped > 0 ? ` // ${item.skipped} skipped` : ''}
+                  <button onClick={() => onRemove(item.source)} disabled={disabled} title="Remove" className="hover:text-red-400">
+                    <X size={10} />
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {counts.map(({ status, count }) => (
+              <div key={status} className="p-2 rounded-xl border border-slate-800/50 bg-slate-900/40 text-center">
+                <p className={`text-lg font-black ${CONTACT_MATCH_STYLES[status]}`}>{count}</p>
+                <p className="text-[8px] font-bold text-slate-600 uppercase tracking-widest mono">{status}</p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ContactImportPanel;
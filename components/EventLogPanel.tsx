@@ -0,0 +1,91 @@
+// Implement the system event log panel with level and file filters and JSONL export
+import React, { useEffect, useRef, useState } from 'react';
+import { FileDown, Terminal } from 'lucide-react';
+import { LogEvent, LogLevel, PhoneParseOptions } from '../types';
+import { DEFAULT_LOG_FILTER, LOG_LEVELS, LogFilter, filterEvents, formatDurations, formatEventTime, loggedFiles, toJSONL } from '../utils/eventLog';
+import { maskText } from '../utils/masking';
+import { downloadFile } from '../utils/csv';
+
+interface EventLogPanelProps {
+  events: LogEvent[];
+  // Applies to the export as well, so a masked session never writes full numbers to disk
+  mask?: boolean;
+  phoneOptions: PhoneParseOptions;
+}
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  success: 'text-emerald-400 border-emerald-900/50',
+  error: 'text-red-400 border-red-900/50',
+  system: 'text-indigo-400 border-indigo-900/50',
+  info: 'text-slate-500 border-slate-800',
+};
+
+const EventLogPanel: React.FC<EventLogPanelProps> = ({ events, mask, phoneOptions }) => {
+  const [filter, setFilter] = useState<LogFilter>(DEFAULT_LOG_FILTER);
+  const endRef = useRef<HTMLDivElement>(null);
+  const visible = filterEvents(events, filter);
+  const display = (message: string) => (mask ? maskText(message, phoneOptions) : message);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [events]);
+
+  const exportJSONL = () => {
+    const content = toJSONL(visible.map(event => ({ ...event, message: display(event.message) })));
+    downloadFile(content, `omniextract_log_${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`, 'application/x-ndjson');
+  };
+
+  return (
+    <div className="glass rounded-3xl overflow-hidden flex flex-col flex-1 border border-slate-800 shadow-2xl min-h-[400px]">
+      <div className="bg-slate-950/80 p-4 border-b border-slate-800 flex justify-between items-center gap-3">
+        <div className="flex items-center gap-3">
+          <Terminal className="w-4 h-4 text-indigo-500" />
+          <span className="text-[10px] font-bold text-slate-400 font-mono tracking-widest uppercase">System Core Output</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <select
+            value={filter.level}
+            onChange={e => setFilter({ ...filter, level: e.target.value as LogFilter['level'] })}
+            className="bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[9px] font-bold text-slate-400 mono uppercase"
+          >
+            <option value="all">All Levels</option>
+            {LOG_LEVELS.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+          <select
+            value={filter.fileId}
+            onChange={e => setFilter({ ...filter, fileId: e.target.value })}
+            className="bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[9px] font-bold text-slate-400 mono uppercase max-w-[140px]"
+          >
+            <option value="all">All Files</option>
+            {loggedFiles(events).map(file => (
+              <option key={file.fileId} value={file.fileId}>{file.fileName}</option>
+            ))}
+          </select>
+          <button
+            onClick={exportJSONL}
+            disabled={visible.length === 0}
+            title="Export the filtered log as JSONL"
+            className="p-1.5 rounded-lg border border-slate-800 text-slate-500 hover:text-indigo-400 disabled:opacity-30 transition-all"
+          >
+            <FileDown size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 p-6 font-mono text-[11px] overflow-y-auto space-y-2 bg-black/50 scrollbar-hide">
+        {visible.map(event => (
+          <div key={event.id} className={`animate-in fade-in slide-in-from-left-2 duration-300 border-l-2 pl-3 py-0.5 ${LEVEL_STYLES[event.level]}`}>
+            <span className="opacity-30 mr-2 tabular-nums">[{formatEventTime(event)}]</span>
+            <span className={`${event.level === 'system' ? 'font-black' : 'font-medium'}`}>{'>>'} {display(event.message).toUpperCase()}</span>
+            {event.durations && <span className="opacity-40 ml-2 tabular-nums">({formatDurations(event.durations)})</span>}
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+    </div>
+  );
+};
+
+export default EventLogPanel;
@@ -0,0 +1,50 @@
+// Implement the settings for which entity extractors run after OCR
+import React from 'react';
+import { ScanText } from 'lucide-react';
+import { EntityType } from '../types';
+import { listExtractors } from '../utils/extractors';
+
+interface ExtractorSettingsPanelProps {
+  enabled: EntityType[];
+  onChange: (enabled: EntityType[]) => void;
+  disabled?: boolean;
+}
+
+const ExtractorSettingsPanel: React.FC<ExtractorSettingsPanelProps> = ({ enabled, onChange, disabled }) => {
+  const toggle = (type: EntityType) => {
+    // Phone numbers key every contact and cannot be switched off
+    if (type === 'phone') return;
+    onChange(enabled.includes(type) ? enabled.filter(t => t !== type) : [...enabled, type]);
+  };
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800">
+      <div className="flex items-center gap-2 mb-4">
+        <ScanText size={14} className="text-slate-500" />
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Extractors</span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {listExtractors().map(extractor => {
+          const active = extractor.type === 'phone' || enabled.includes(extractor.type);
+          return (
+            <button
+              key={extractor.type}
+              onClick={() => toggle(extractor.type)}
+              disabled={disabled || extractor.type === 'phone'}
+              className={`p-2 rounded-xl border text-[10px] font-bold mono text-left transition-all ${
+                active
+                ? 'border-indigo-500/60 bg-indigo-500/10 text-slate-300'
+                : 'border-slate-800/50 bg-slate-900/40 text-slate-600'
+              }`}
+            >
+              {extractor.label}
+            </button>
+          );
+        })}
+      </div>
+      <p className="mt-3 text-[9px] text-slate-600 mono">Other entities are linked to the nearest number in the same image.</p>
+    </div>
+  );
+};
+
+export default ExtractorSettingsPanel;
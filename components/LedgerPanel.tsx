@@ -0,0 +1,87 @@
+// Implement the export ledger viewer with search and pruning
+import React, { useState } from 'react';
+import { BookCheck, Trash2 } from 'lucide-react';
+import { LedgerEntry } from '../types';
+import { entriesOlderThan, lastExport, searchLedger } from '../utils/ledger';
+import { maskNumber } from '../utils/masking';
+
+interface LedgerPanelProps {
+  entries: LedgerEntry[];
+  onPrune: (numbers: string[]) => void;
+  mask?: boolean;
+  disabled?: boolean;
+}
+
+const LedgerPanel: React.FC<LedgerPanelProps> = ({ entries, onPrune, mask, disabled }) => {
+  const [query, setQuery] = useState('');
+  const [days, setDays] = useState(90);
+  const stale = entriesOlderThan(entries, days);
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <BookCheck size={16} className="text-indigo-500" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Export Ledger</span>
+          <span className="text-[9px] font-bold text-slate-600 mono">{entries.length}</span>
+        </div>
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search number or archive..."
+          className="bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-1 text-[10px] text-slate-300 mono w-48"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mb-3 text-[9px] font-bold mono uppercase text-slate-500">
+        <label className="flex items-center gap-2">
+          Older than
+          <input
+            type="number"
+            min={1}
+            value={days}
+            onChange={e => setDays(Math.max(1, parseInt(e.target.value, 10) || 1))}
+            className="w-14 bg-slate-900/60 border border-slate-800 rounded px-1 py-0.5 text-slate-300"
+          />
+          days: {stale.length}
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onPrune(stale.map(e => e.number))}
+            disabled={disabled || stale.length === 0}
+            className="px-3 py-1 rounded-full border border-amber-900/40 text-amber-500 hover:bg-amber-900/30 disabled:opacity-30 transition-all"
+          >
+            Prune Stale
+          </button>
+          <button
+            onClick={() => confirm('Forget every exported number? "Only new" exports will include them again.') && onPrune(entries.map(e => e.number))}
+            disabled={disabled || entries.length === 0}
+            className="px-3 py-1 rounded-full border border-red-900/40 text-red-500 hover:bg-red-900/30 disabled:opacity-30 transition-all"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-56 overflow-y-auto scrollbar-hide space-y-1">
+        {searchLedger(entries, query).map(entry => {
+          const latest = lastExport(entry);
+          return (
+            <div key={entry.number} className="flex items-center justify-between text-[10px] font-mono border-b border-slate-800/50 py-1 gap-2">
+              <span className="text-slate-300">{mask ? maskNumber(entry.number) : entry.number}</span>
+              <span className="text-slate-600 truncate" title={entry.exports.map(e => `${e.filename} (${new Date(e.timestamp).toLocaleString()})`).join('\n')}>
+                {latest.filename} // {new Date(latest.timestamp).toLocaleDateString()}
+                {entry.exports.length > 1 ? ` // ${entry.exports.length}x` : ''}
+              </span>
+              <button onClick={() => onPrune([entry.number])} disabled={disabled} title="Forget" className="p-1 text-slate-600 hover:text-red-400 shrink-0">
+                <Trash2 size={10} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LedgerPanel;
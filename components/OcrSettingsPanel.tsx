@@ -0,0 +1,112 @@
+// Implement the settings panel for choosing which OCR provider powers extraction
+import React from 'react';
+import { Settings2, Cloud, HardDrive } from 'lucide-react';
+import { ExtractionMode, OcrProvider, QueueSettings } from '../types';
+
+interface OcrSettingsPanelProps {
+  providers: OcrProvider[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  extractionMode: ExtractionMode;
+  onModeChange: (mode: ExtractionMode) => void;
+  queueSettings: QueueSettings;
+  onQueueChange: (settings: QueueSettings) => void;
+  disabled?: boolean;
+}
+
+const MODES: { id: ExtractionMode; label: string }[] = [
+  { id: 'text', label: 'Free Text' },
+  { id: 'structured', label: 'Structured' },
+];
+
+const QUEUE_FIELDS: { key: keyof QueueSettings; label: string; min: number; max: number }[] = [
+  { key: 'concurrency', label: 'Workers', min: 1, max: 8 },
+  { key: 'requestsPerMinute', label: 'Req / Min', min: 1, max: 600 },
+  { key: 'maxRetries', label: 'Retries', min: 0, max: 10 },
+];
+
+const OcrSettingsPanel: React.FC<OcrSettingsPanelProps> = ({ providers, selectedId, onSelect, extractionMode, onModeChange, queueSettings, onQueueChange, disabled }) => {
+  const selectedProvider = providers.find(p => p.id === selectedId);
+  const structuredSupported = Boolean(selectedProvider?.extractStructured);
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800">
+      <div className="flex items-center gap-2 mb-4">
+        <Settings2 size={14} className="text-slate-500" />
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">OCR Engine</span>
+      </div>
+      <div className="space-y-2">
+        {providers.map(provider => {
+          const available = provider.isAvailable();
+          const selected = provider.id === selectedId;
+          return (
+            <button
+              key={provider.id}
+              onClick={() => onSelect(provider.id)}
+              disabled={disabled || !available}
+              className={`w-full text-left p-3 rounded-xl border transition-all flex items-start gap-3 ${
+                selected
+                ? 'border-indigo-500/60 bg-indigo-500/10'
+                : 'border-slate-800/50 bg-slate-900/40 hover:border-indigo-500/30'
+              } ${!available ? 'opacity-40 cursor-not-allowed' : ''}`}
+            >
+              {provider.offline ? (
+                <HardDrive size={14} className="text-emerald-500 mt-0.5 shrink-0" />
+              ) : (
+                <Cloud size={14} className="text-indigo-400 mt-0.5 shrink-0" />
+              )}
+              <div className="min-w-0">
+                <p className="text-[11px] font-bold text-slate-300">
+                  {provider.label}
+                  {!available && <span className="ml-2 text-[9px] text-red-500 uppercase mono">Unavailable</span>}
+                </p>
+                <p className="text-[9px] text-slate-600 mt-0.5">{provider.description}</p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex items-center justify-between mt-4">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Extraction Mode</span>
+        <div className="flex gap-1 bg-slate-900/40 border border-slate-800/50 rounded-full p-1">
+          {MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => onModeChange(mode.id)}
+              disabled={disabled}
+              className={`px-3 py-1 rounded-full text-[9px] font-bold uppercase tracking-widest mono transition-all ${
+                extractionMode === mode.id ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {extractionMode === 'structured' && !structuredSupported && (
+        <p className="text-[9px] text-amber-500 mono mt-2 uppercase">Engine lacks structured output. Falling back to regex scan.</p>
+      )}
+      <div className="grid grid-cols-3 gap-2 mt-4">
+        {QUEUE_FIELDS.map(field => (
+          <label key={field.key} className="text-[9px] font-bold text-slate-600 mono uppercase">
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={queueSettings[field.key]}
+              disabled={disabled}
+              onChange={e => {
+                const value = Math.min(field.max, Math.max(field.min, parseInt(e.target.value, 10) || field.min));
+                onQueueChange({ ...queueSettings, [field.key]: value });
+              }}
+              className="mt-1 w-full bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-300"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OcrSettingsPanel;
@@ -0,0 +1,95 @@
+// Implement the settings for the client-side image preprocessing pipeline
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { PreprocessOptions } from '../types';
+
+interface PreprocessSettingsPanelProps {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+  disabled?: boolean;
+}
+
+const MAX_DIMENSIONS = [1024, 1536, 2048, 3072, 4096];
+
+const PreprocessSettingsPanel: React.FC<PreprocessSettingsPanelProps> = ({ options, onChange, disabled }) => {
+  const toggles: { key: 'grayscale' | 'tileTallImages' | 'flagNearDuplicates'; label: string }[] = [
+    { key: 'grayscale', label: 'Grayscale' },
+    { key: 'tileTallImages', label: 'Tile Tall Screenshots' },
+    { key: 'flagNearDuplicates', label: 'Flag Near-Duplicates' },
+  ];
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal size={14} className="text-slate-500" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Preprocessing</span>
+        </div>
+        <select
+          value={options.maxDimension}
+          onChange={e => onChange({ ...options, maxDimension: parseInt(e.target.value, 10) })}
+          disabled={disabled}
+          className="bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-300 mono uppercase"
+        >
+          {MAX_DIMENSIONS.map(size => (
+            <option key={size} value={size}>Max {size}px</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {toggles.map(toggle => (
+          <label key={toggle.key} className="flex items-center gap-2 text-[10px] font-bold text-slate-400 mono uppercase">
+            <input
+              type="checkbox"
+              checked={options[toggle.key]}
+              disabled={disabled}
+              onChange={() => onChange({ ...options, [toggle.key]: !options[toggle.key] })}
+              className="accent-indigo-500"
+            />
+            {toggle.label}
+          </label>
+        ))}
+      </div>
+
+      <label className="block text-[9px] font-bold text-slate-600 mono uppercase mb-2">
+        Contrast {Math.round(options.contrast * 100)}%
+        <input
+          type="range"
+          min={0.5}
+          max={2.5}
+          step={0.1}
+          value={options.contrast}
+          disabled={disabled}
+          onChange={e => onChange({ ...options, contrast: parseFloat(e.target.value) })}
+          className="w-full accent-indigo-500"
+        />
+      </label>
+
+      <label className="flex items-center gap-2 text-[9px] font-bold text-slate-600 mono uppercase">
+        <input
+          type="checkbox"
+          checked={options.threshold !== null}
+          disabled={disabled}
+          onChange={() => onChange({ ...options, threshold: options.threshold === null ? 160 : null })}
+          className="accent-indigo-500"
+        />
+        Threshold
+        {options.threshold !== null && (
+          <input
+            type="range"
+            min={40}
+            max={220}
+            step={5}
+            value={options.threshold}
+            disabled={disabled}
+            onChange={e => onChange({ ...options, threshold: parseInt(e.target.value, 10) })}
+            className="flex-1 accent-indigo-500"
+          />
+        )}
+      </label>
+    </div>
+  );
+};
+
+export default PreprocessSettingsPanel;
@@ -0,0 +1,68 @@
+// Implement the numbering-plan settings for default and allowed phone regions
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { PhoneParseOptions, RegionCode } from '../types';
+import { ALL_REGIONS, NUMBERING_PLANS } from '../utils/phoneNumbers';
+
+interface RegionSettingsPanelProps {
+  options: PhoneParseOptions;
+  onChange: (options: PhoneParseOptions) => void;
+  disabled?: boolean;
+}
+
+const RegionSettingsPanel: React.FC<RegionSettingsPanelProps> = ({ options, onChange, disabled }) => {
+  const toggleRegion = (region: RegionCode) => {
+    const allowed = options.allowedRegions.includes(region)
+      ? options.allowedRegions.filter(r => r !== region)
+      : [...options.allowedRegions, region];
+    // Never allow an empty list; the default region is always accepted
+    if (allowed.length === 0) return;
+    onChange({
+      defaultRegion: allowed.includes(options.defaultRegion) ? options.defaultRegion : allowed[0],
+      allowedRegions: allowed,
+    });
+  };
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Globe size={14} className="text-slate-500" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Number Plan</span>
+        </div>
+        <select
+          value={options.defaultRegion}
+          onChange={e => onChange({ ...options, defaultRegion: e.target.value as RegionCode })}
+          disabled={disabled}
+          className="bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-300 mono uppercase"
+        >
+          {options.allowedRegions.map(region => (
+            <option key={region} value={region}>Default: {region}</option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {ALL_REGIONS.map(region => {
+          const allowed = options.allowedRegions.includes(region);
+          return (
+            <button
+              key={region}
+              onClick={() => toggleRegion(region)}
+              disabled={disabled}
+              className={`flex items-center justify-between p-2 rounded-xl border text-[10px] font-bold mono transition-all ${
+                allowed
+                ? 'border-indigo-500/60 bg-indigo-500/10 text-slate-300'
+                : 'border-slate-800/50 bg-slate-900/40 text-slate-600'
+              }`}
+            >
+              <span>{NUMBERING_PLANS[region].label}</span>
+              <span className="text-slate-500">+{NUMBERING_PLANS[region].countryCode}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RegionSettingsPanel;
@@ -0,0 +1,167 @@
+// Implement the review table for editing, approving and excluding extracted numbers
+import React from 'react';
+import { ClipboardCheck, Check, Ban, Trash2, AlertTriangle, Image as ImageIcon } from 'lucide-react';
+import { ContactMatch, ExtractedNumber, ReviewStatus } from '../types';
+import { describeSource } from '../utils/templates';
+import { REVIEW_FLAG_LABELS, needsAttention, reviewFlags, sortForReview } from '../utils/review';
+import { maskNumber, maskText } from '../utils/masking';
+import { CONTACT_MATCH_STYLES } from './ContactImportPanel';
+
+interface ReviewWorkspaceProps {
+  numbers: ExtractedNumber[];
+  onUpdateName: (id: string, name: string) => void;
+  onUpdateNumber: (id: string, value: string) => void;
+  onSetStatus: (ids: string[], status: ReviewStatus) => void;
+  onDelete: (id: string) => void;
+  onPreview: (num: ExtractedNumber) => void;
+  // Keyed by number id; absent until an address book has been imported
+  contactMatches?: Record<string, ContactMatch>;
+  // Masked rows are read-only so the full number never appears in an input
+  mask?: boolean;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'text-slate-500',
+  approved: 'text-emerald-500',
+  excluded: 'text-red-500 line-through opacity-50',
+};
+
+const ReviewWorkspace: React.FC<ReviewWorkspaceProps> = ({ numbers, onUpdateName, onUpdateNumber, onSetStatus, onDelete, onPreview, contactMatches, mask, disabled }) => {
+  const sorted = sortForReview(numbers);
+  const cleanPending = numbers.filter(n => n.reviewStatus === 'pending' && !needsAttention(n)).map(n => n.id);
+  const approvedCount = numbers.filter(n => n.reviewStatus === 'approved').length;
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck size={16} className="text-indigo-500" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Review Workspace</span>
+          <span className="text-[9px] font-bold text-slate-600 mono">{approvedCount}/{numbers.length} APPROVED</span>
+        </div>
+        <button
+          onClick={() => onSetStatus(cleanPending, 'approved')}
+          disabled={disabled || cleanPending.length === 0}
+          className="text-[9px] font-bold uppercase tracking-widest mono px-3 py-1 rounded-full border border-emerald-900/40 text-emerald-500 hover:bg-emerald-900/30 disabled:opacity-30 transition-all"
+        >
+          Approve {cleanPending.length} Unflagged
+        </button>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto scrollbar-hide">
+        <table className="w-full text-[10px] font-mono">
+          <thead>
+            <tr className="text-slate-600 uppercase text-left border-b border-slate-800">
+              <th className="py-2 pr-2">Name</th>
+              <th className="py-2 pr-2">Number</th>
+              <th className="py-2 pr-2">Conf.</th>
+              <th className="py-2 pr-2">Source</th>
+              <th className="py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(num => {
+              const flags = reviewFlags(num);
+              const match = contactMatches?.[num.id];
+              return (
+                <tr key={num.id} className={`border-b border-slate-800/50 ${needsAttention(num) && num.reviewStatus === 'pending' ? 'bg-amber-500/5' : ''}`}>
+                  <td className="py-1.5 pr-2">
+                    <input
+                      defaultValue={num.name || ''}
+                      placeholder="Unnamed"
+                      disabled={disabled}
+                      onBlur={e => e.target.value !== (num.name || '') && onUpdateName(num.id, e.target.value)}
+                      className="w-full bg-transparent text-slate-300 placeholder:text-slate-700 focus:outline-none focus:bg-slate-900/60 rounded px-1"
+                    />
+                    {num.entities && num.entities.length > 0 && (
+                      <span
+                        title={num.entities.map(e => `${e.type}: ${mask ? maskText(e.value) : e.value}`).join('\n')}
+                        className="block px-1 text-[8px] text-slate-500 truncate max-w-[160px]"
+                      >
+                        {num.entities.map(e => (mask ? maskText(e.value) : e.value)).join(' // ')}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {mask ? (
+                      <span className={`block px-1 ${STATUS_STYLES[num.reviewStatus]}`}>{maskNumber(num.formatted)}</span>
+                    ) : (
+                      <input
+                        key={num.formatted}
+                        defaultValue={num.formatted}
+                        disabled={disabled}
+                        onBlur={e => e.target.value !== num.formatted && onUpdateNumber(num.id, e.target.value)}
+                        className={`w-full bg-transparent focus:outline-none focus:bg-slate-900/60 rounded px-1 ${STATUS_STYLES[num.reviewStatus]}`}
+                      />
+                    )}
+                    {num.exportedBefore && (
+                      <span
+                        title={`Already exported in ${num.exportedBefore.filename} on ${new Date(num.exportedBefore.timestamp).toLocaleString()}`}
+                        className="block px-1 text-[8px] uppercase tracking-widest text-indigo-400/70"
+                      >
+                        Exported // {num.exportedBefore.filename}
+                      </span>
+                    )}
+                    {match && (
+                      <span
+                        title={match.contact
+                          ? `Address book: ${match.contact.name || 'Unnamed'} (${match.contact.source})${match.status === 'conflict' ? '\nA merged export keeps the address book name and adds this one to its notes.' : ''}`
+                          : 'Not in any imported address book'}
+                        className={`block px-1 text-[8px] uppercase tracking-widest ${CONTACT_MATCH_STYLES[match.status]}`}
+                      >
+                        {match.status}{match.status === 'conflict' && match.contact?.name ? ` // ${match.contact.name}` : ''}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2 tabular-nums">
+                    <span className={flags.includes('low_confidence') ? 'text-amber-500' : 'text-slate-500'}>
+                      {num.confidence !== undefined ? `${Math.round(num.confidence * 100)}%` : '--'}
+                    </span>
+                    {flags.length > 0 && (
+                      <span title={flags.map(f => REVIEW_FLAG_LABELS[f]).join(', ')}>
+                        <AlertTriangle size={10} className="inline ml-1 text-amber-500" />
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <button
+                      onClick={() => onPreview(num)}
+                      className="flex items-center gap-1 text-slate-500 hover:text-indigo-400 truncate max-w-[120px]"
+                    >
+                      <ImageIcon size={10} className="shrink-0" />
+                      <span className="truncate">{describeSource(num.sourceImage, num.sourcePage)}</span>
+                    </button>
+                  </td>
+                  <td className="py-1.5 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => onSetStatus([num.id], num.reviewStatus === 'approved' ? 'pending' : 'approved')}
+                      disabled={disabled}
+                      title="Approve"
+                      className={`p-1 ${num.reviewStatus === 'approved' ? 'text-emerald-500' : 'text-slate-600 hover:text-emerald-400'}`}
+                    >
+                      <Check size={12} />
+                    </button>
+                    <button
+                      onClick={() => onSetStatus([num.id], num.reviewStatus === 'excluded' ? 'pending' : 'excluded')}
+                      disabled={disabled}
+                      title="Exclude"
+                      className={`p-1 ${num.reviewStatus === 'excluded' ? 'text-red-500' : 'text-slate-600 hover:text-red-400'}`}
+                    >
+                      <Ban size={12} />
+                    </button>
+                    <button onClick={() => onDelete(num.id)} disabled={disabled} title="Delete" className="p-1 text-slate-600 hover:text-red-400">
+                      <Trash2 size={12} />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewWorkspace;
@@ -0,0 +1,121 @@
+// Implement the data protection settings: encryption at rest, retention, masking and purge
+import React, { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { VaultState } from '../types';
+
+interface SecurityPanelProps {
+  vaultState: VaultState;
+  onEnableVault: (passphrase: string) => void;
+  onLock: () => void;
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  maskNumbers: boolean;
+  onMaskChange: (mask: boolean) => void;
+  onPurge: () => void;
+  disabled?: boolean;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const SecurityPanel: React.FC<SecurityPanelProps> = ({
+  vaultState,
+  onEnableVault,
+  onLock,
+  retentionDays,
+  onRetentionChange,
+  maskNumbers,
+  onMaskChange,
+  onPurge,
+  disabled,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const canEnable = passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation;
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {vaultState === 'off' ? <Unlock size={14} className="text-slate-500" /> : <Lock size={14} className="text-emerald-500" />}
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Data Protection</span>
+        </div>
+        <span className={`text-[9px] font-bold mono uppercase ${vaultState === 'off' ? 'text-amber-500' : 'text-emerald-500'}`}>
+          {vaultState === 'off' ? 'Stored in plaintext' : `Encrypted // ${vaultState}`}
+        </span>
+      </div>
+
+      {vaultState === 'off' ? (
+        <div className="space-y-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder={`Passphrase (min ${MIN_PASSPHRASE_LENGTH} chars)`}
+            disabled={disabled}
+            className="w-full bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-1.5 text-[10px] text-slate-300 mono"
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={e => setConfirmation(e.target.value)}
+            placeholder="Repeat passphrase"
+            disabled={disabled}
+            className="w-full bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-1.5 text-[10px] text-slate-300 mono"
+          />
+          <button
+            onClick={() => {
+              onEnableVault(passphrase);
+              setPassphrase('');
+              setConfirmation('');
+            }}
+            disabled={disabled || !canEnable}
+            className="w-full py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest mono border border-emerald-900/40 text-emerald-500 hover:bg-emerald-900/30 disabled:opacity-30 transition-all"
+          >
+            Encrypt History &amp; Sessions
+          </button>
+          <p className="text-[9px] text-slate-600 mono">The passphrase cannot be recovered. Forgetting it leaves only a full purge.</p>
+        </div>
+      ) : (
+        vaultState === 'unlocked' && (
+          <button
+            onClick={onLock}
+            disabled={disabled}
+            className="w-full py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest mono border border-slate-800 text-slate-400 hover:text-white disabled:opacity-30 transition-all"
+          >
+            Lock Now
+          </button>
+        )
+      )}
+
+      <label className="flex items-center justify-between text-[10px] font-bold text-slate-500 mono uppercase">
+        Keep archives for
+        <span className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            value={retentionDays}
+            onChange={e => onRetentionChange(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            disabled={disabled}
+            className="w-16 bg-slate-900/60 border border-slate-800 rounded px-2 py-0.5 text-slate-300 text-right"
+          />
+          {retentionDays === 0 ? 'days (forever)' : 'days'}
+        </span>
+      </label>
+
+      <label className="flex items-center justify-between text-[10px] font-bold text-slate-500 mono uppercase cursor-pointer">
+        Mask numbers in UI &amp; log
+        <input type="checkbox" checked={maskNumbers} onChange={e => onMaskChange(e.target.checked)} className="accent-indigo-500" />
+      </label>
+
+      <button
+        onClick={onPurge}
+        disabled={disabled}
+        className="w-full py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest mono border border-red-900/30 bg-red-950/20 text-red-500 hover:bg-red-900/40 disabled:opacity-30 transition-all"
+      >
+        Secure Purge Everything
+      </button>
+    </div>
+  );
+};
+
+export default SecurityPanel;
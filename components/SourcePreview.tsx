@@ -0,0 +1,56 @@
+// Implement the source image preview with the matched region highlighted
+import React from 'react';
+import { X } from 'lucide-react';
+import { ExtractedNumber } from '../types';
+import { describeSource } from '../utils/templates';
+import { maskNumber } from '../utils/masking';
+
+interface SourcePreviewProps {
+  number: ExtractedNumber;
+  previewUrl?: string;
+  mask?: boolean;
+  onClose: () => void;
+}
+
+const SourcePreview: React.FC<SourcePreviewProps> = ({ number, previewUrl, mask, onClose }) => {
+  const box = number.boundingBox;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass rounded-3xl border border-slate-800 max-w-3xl w-full max-h-full overflow-auto p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="min-w-0">
+            <p className="text-[11px] font-bold text-slate-300 truncate">{describeSource(number.sourceImage, number.sourcePage)}</p>
+            <p className="text-[9px] font-bold text-slate-600 mono uppercase">
+              {mask ? maskNumber(number.formatted) : number.formatted} {box ? '' : '// No position reported'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-500 hover:text-white transition-all">
+            <X size={16} />
+          </button>
+        </div>
+        {previewUrl ? (
+          <div className="relative inline-block w-full">
+            <img src={previewUrl} alt={number.sourceImage} className="w-full h-auto rounded-xl" />
+            {box && (
+              // Bounding boxes use a 0-1000 scale, so they map straight onto percentages
+              <div
+                className="absolute border-2 border-amber-400 bg-amber-400/20 rounded shadow-[0_0_20px_rgba(251,191,36,0.6)]"
+                style={{
+                  left: `${box.x / 10}%`,
+                  top: `${box.y / 10}%`,
+                  width: `${box.width / 10}%`,
+                  height: `${box.height / 10}%`,
+                }}
+              />
+            )}
+          </div>
+        ) : (
+          <p className="text-[10px] text-slate-600 mono uppercase text-center py-10">Source image no longer in buffer.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SourcePreview;
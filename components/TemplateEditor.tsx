@@ -0,0 +1,142 @@
+// Implement the export template editor for column mapping, name tokens and batch labels
+import React from 'react';
+import { LayoutTemplate, Copy, Trash2 } from 'lucide-react';
+import { ExportColumn, ExportTemplate, ExtractedNumber } from '../types';
+import { EXPORT_COLUMNS, NAME_TOKENS, DEFAULT_TEMPLATE, renderName, renderLabels } from '../utils/templates';
+
+interface TemplateEditorProps {
+  templates: ExportTemplate[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onSave: (template: ExportTemplate) => void;
+  onDelete: (id: string) => void;
+  sample?: ExtractedNumber;
+  disabled?: boolean;
+}
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, activeId, onSelect, onSave, onDelete, sample, disabled }) => {
+  const active = templates.find(t => t.id === activeId) || DEFAULT_TEMPLATE;
+
+  const update = (changes: Partial<ExportTemplate>) => onSave({ ...active, ...changes });
+
+  const toggleColumn = (column: ExportColumn) => {
+    const columns = active.columns.includes(column)
+      ? active.columns.filter(c => c !== column)
+      : [...active.columns, column];
+    update({ columns });
+  };
+
+  const duplicate = () => {
+    const copy: ExportTemplate = {
+      ...active,
+      id: Math.random().toString(36).substr(2, 9),
+      name: `${active.name} Copy`,
+    };
+    onSave(copy);
+    onSelect(copy.id);
+  };
+
+  const previewCtx = { index: 0, date: new Date() };
+  const preview = sample
+    ? `${renderName(active, sample, previewCtx)} // ${renderLabels(active, sample, previewCtx).join(', ') || 'NO LABELS'}`
+    : null;
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <LayoutTemplate size={14} className="text-slate-500" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Export Template</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <select
+            value={active.id}
+            onChange={e => onSelect(e.target.value)}
+            disabled={disabled}
+            className="bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-300 mono uppercase"
+          >
+            {templates.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <button onClick={duplicate} disabled={disabled} title="Save as new template" className="p-1.5 text-slate-500 hover:text-indigo-400 transition-all">
+            <Copy size={12} />
+          </button>
+          {active.id !== DEFAULT_TEMPLATE.id && (
+            <button onClick={() => onDelete(active.id)} disabled={disabled} title="Delete template" className="p-1.5 text-slate-500 hover:text-red-400 transition-all">
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {active.id !== DEFAULT_TEMPLATE.id && (
+          <input
+            value={active.name}
+            onChange={e => update({ name: e.target.value })}
+            disabled={disabled}
+            placeholder="Template name"
+            className="w-full bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-2 text-[11px] text-slate-300 mono"
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          {EXPORT_COLUMNS.map(column => (
+            <label key={column.id} className="flex items-center gap-2 text-[10px] font-bold text-slate-400 mono uppercase">
+              <input
+                type="checkbox"
+                checked={column.required || active.columns.includes(column.id)}
+                disabled={disabled || column.required}
+                onChange={() => toggleColumn(column.id)}
+                className="accent-indigo-500"
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <p className="text-[9px] font-bold text-slate-600 mono uppercase mb-1">Name Template</p>
+          <input
+            value={active.nameTemplate}
+            onChange={e => update({ nameTemplate: e.target.value })}
+            disabled={disabled}
+            className="w-full bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-2 text-[11px] text-slate-300 mono"
+          />
+          <div className="flex flex-wrap gap-1 mt-1">
+            {NAME_TOKENS.map(token => (
+              <button
+                key={token}
+                onClick={() => update({ nameTemplate: `${active.nameTemplate}${token}` })}
+                disabled={disabled}
+                className="px-2 py-0.5 rounded-full bg-slate-900/40 border border-slate-800/50 text-[9px] text-slate-500 mono hover:text-indigo-400"
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-[9px] font-bold text-slate-600 mono uppercase mb-1">Batch Labels (comma separated)</p>
+          <input
+            value={active.labels}
+            onChange={e => update({ labels: e.target.value })}
+            disabled={disabled || !active.columns.includes('labels')}
+            placeholder="e.g. Leads {date}, Team A"
+            className="w-full bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-2 text-[11px] text-slate-300 mono disabled:opacity-40"
+          />
+        </div>
+
+        {preview && (
+          <p className="text-[9px] text-slate-600 mono uppercase">
+            Preview: <span className="text-slate-400 normal-case">{preview}</span>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditor;
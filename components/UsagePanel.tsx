@@ -0,0 +1,122 @@
+// Implement the token usage view with the batch budget and the editable price table
+import React, { useState } from 'react';
+import { Coins, Trash2 } from 'lucide-react';
+import { ModelPrice, PriceTable, UsageStats } from '../types';
+import { formatCost } from '../utils/usage';
+
+interface UsagePanelProps {
+  // Running totals of the current batch, or of the last one once it has finished
+  batchUsage: UsageStats | null;
+  budgetUsd: number;
+  onBudgetChange: (usd: number) => void;
+  prices: PriceTable;
+  onPricesChange: (prices: PriceTable) => void;
+  disabled?: boolean;
+}
+
+const parsePrice = (value: string): number => Math.max(0, parseFloat(value) || 0);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ batchUsage, budgetUsd, onBudgetChange, prices, onPricesChange, disabled }) => {
+  const [newModel, setNewModel] = useState('');
+
+  const updatePrice = (model: string, changes: Partial<ModelPrice>) =>
+    onPricesChange({ ...prices, [model]: { ...prices[model], ...changes } });
+
+  const removeModel = (model: string) => {
+    const { [model]: _removed, ...rest } = prices;
+    onPricesChange(rest);
+  };
+
+  const addModel = () => {
+    const model = newModel.trim();
+    if (!model || prices[model]) return;
+    onPricesChange({ ...prices, [model]: { inputPerMillion: 0, outputPerMillion: 0 } });
+    setNewModel('');
+  };
+
+  return (
+    <div className="glass rounded-3xl p-6 border border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Coins size={14} className="text-slate-500" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Usage &amp; Budget</span>
+        </div>
+        <span className={`text-[9px] font-bold mono uppercase ${budgetUsd > 0 && batchUsage && batchUsage.costUsd >= budgetUsd ? 'text-amber-500' : 'text-slate-500'}`}>
+          Batch ~{formatCost(batchUsage?.costUsd || 0)}{budgetUsd > 0 ? ` / ${formatCost(budgetUsd)}` : ''}
+        </span>
+      </div>
+
+      {batchUsage && (
+        <div className="grid grid-cols-4 gap-2 text-[9px] font-bold mono uppercase text-slate-500">
+          <span>In <span className="block text-slate-300 tabular-nums">{batchUsage.promptTokens.toLocaleString()}</span></span>
+          <span>Out <span className="block text-slate-300 tabular-nums">{batchUsage.outputTokens.toLocaleString()}</span></span>
+          <span>Total <span className="block text-slate-300 tabular-nums">{batchUsage.totalTokens.toLocaleString()}</span></span>
+          <span>Calls <span className="block text-slate-300 tabular-nums">{batchUsage.calls}</span></span>
+        </div>
+      )}
+
+      <label className="flex items-center justify-between text-[10px] font-bold text-slate-500 mono uppercase">
+        Batch budget (USD)
+        <span className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={budgetUsd}
+            onChange={e => onBudgetChange(parsePrice(e.target.value))}
+            className="w-20 bg-slate-900/60 border border-slate-800 rounded px-2 py-0.5 text-slate-300 text-right"
+          />
+          {budgetUsd === 0 && 'no limit'}
+        </span>
+      </label>
+
+      <div className="space-y-1">
+        <p className="text-[9px] font-bold text-slate-600 mono uppercase">USD per 1M tokens (input / output)</p>
+        {Object.keys(prices).map(model => (
+          <div key={model} className="flex items-center gap-2 text-[10px] mono">
+            <span className="flex-1 text-slate-400 truncate" title={model}>{model}</span>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={prices[model].inputPerMillion}
+              onChange={e => updatePrice(model, { inputPerMillion: parsePrice(e.target.value) })}
+              disabled={disabled}
+              className="w-16 bg-slate-900/60 border border-slate-800 rounded px-1 py-0.5 text-slate-300 text-right"
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={prices[model].outputPerMillion}
+              onChange={e => updatePrice(model, { outputPerMillion: parsePrice(e.target.value) })}
+              disabled={disabled}
+              className="w-16 bg-slate-900/60 border border-slate-800 rounded px-1 py-0.5 text-slate-300 text-right"
+            />
+            <button onClick={() => removeModel(model)} disabled={disabled} title="Remove" className="p-1 text-slate-600 hover:text-red-400">
+              <Trash2 size={10} />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <input
+            value={newModel}
+            onChange={e => setNewModel(e.target.value)}
+            placeholder="Model id"
+            disabled={disabled}
+            className="flex-1 bg-slate-900/60 border border-slate-800 rounded-lg px-2 py-1 text-[10px] text-slate-300 mono"
+          />
+          <button
+            onClick={addModel}
+            disabled={disabled || !newModel.trim()}
+            className="px-3 py-1 rounded-full border border-slate-800 text-[9px] font-bold uppercase mono text-slate-400 hover:text-white disabled:opacity-30 transition-all"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,57 @@
+// Implement the public surface of the framework-agnostic extraction core
+export * from '../types';
+export type { ExtractionOptions, ExtractionResult, SourceRef } from './pipeline';
+export { extractFromSource, passthroughImage, extractNumbers, toExtractedNumbers } from './pipeline';
+export type { ReconciledNumber } from '../utils/structuredExtraction';
+export { reconcileExtraction, mergeTileResults } from '../utils/structuredExtraction';
+export {
+  ALL_REGIONS,
+  DEFAULT_PHONE_OPTIONS,
+  NUMBERING_PLANS,
+  extractAndFormatNumbers,
+  parsePhoneNumber,
+  parsePhoneNumbers,
+} from '../utils/phoneNumbers';
+export type { EntityExtractor, LocatedEntity } from '../utils/extractors';
+export {
+  ALL_ENTITY_TYPES,
+  DEFAULT_ENTITY_TYPES,
+  entityValues,
+  getExtractor,
+  linkEntities,
+  listExtractors,
+  normalizeEntity,
+  registerExtractor,
+  scanEntities,
+} from '../utils/extractors';
+export {
+  DEFAULT_OCR_PROVIDER,
+  getOcrProvider,
+  listOcrProviders,
+  performImageOCR,
+  performOCR,
+  registerOcrProvider,
+  supportsStructured,
+} from '../services/ocrRegistry';
+export type { JobQueue, JobQueueEvents } from '../services/jobQueue';
+export { DEFAULT_QUEUE_SETTINGS, createJobQueue } from '../services/jobQueue';
+export { classifyError } from '../services/processingErrors';
+export type { LogFilter } from '../utils/eventLog';
+export {
+  DEFAULT_PRICE_TABLE,
+  EMPTY_USAGE,
+  addUsage,
+  estimateCost,
+  formatCost,
+  formatUsage,
+  sumUsage,
+  toUsageStats,
+  wouldExceedBudget,
+} from '../utils/usage';
+export { LOG_LEVELS, createLogEvent, filterEvents, formatDurations, timeStage, toJSONL } from '../utils/eventLog';
+export type { OcrCache } from '../services/ocrCache';
+export { ocrCacheKey, sha256Hex, withOcrCache } from '../services/ocrCache';
+export type { ExportFormat } from '../utils/exporters';
+export { DEFAULT_EXPORT_FORMAT, getExportFormat, listExportFormats } from '../utils/exporters';
+export { DEFAULT_TEMPLATE, normalizeTemplate } from '../utils/templates';
+export { parseContactCSV, parseVCardFile, indexContacts, matchContact, mergeWithContacts } from '../utils/contactImport';
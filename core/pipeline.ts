@@ -0,0 +1,100 @@
+// Implement the browser-independent extraction pipeline shared by the web app and the CLI
+import { EntityType, ExtractedNumber, ExtractionMode, PhoneParseOptions, PipelineStage, PreparedImage, PreprocessOptions, PriceTable, StageDurations, UsageStats } from '../types';
+import { getOcrProvider, performImageOCR } from '../services/ocrRegistry';
+import { OcrCache, ocrCacheKey, sha256Hex, withOcrCache } from '../services/ocrCache';
+import { ReconciledNumber, reconcileExtraction } from '../utils/structuredExtraction';
+import { detectMimeType, preprocessFingerprint, preprocessImage } from '../utils/imageProcessing';
+import { bytesToBase64 } from '../utils/exporters';
+import { timeStage } from '../utils/eventLog';
+import { DEFAULT_PRICE_TABLE, toUsageStats } from '../utils/usage';
+
+export interface ExtractionOptions {
+  providerId: string;
+  mode: ExtractionMode;
+  phoneOptions: PhoneParseOptions;
+  // Extractors to run after OCR; all registered types when omitted
+  entityTypes?: EntityType[];
+  // Prices for the cost estimate; the built-in table when omitted
+  prices?: PriceTable;
+  // Results are looked up by the SHA-256 of the source bytes before any OCR call
+  cache?: OcrCache;
+  // Canvas preprocessing and tiling; without it the source is sent as one untouched tile, as where no canvas exists
+  preprocess?: PreprocessOptions;
+  // Awaited before every provider call after the first, so tiled images respect the queue's rate limit
+  acquire?: () => Promise<void>;
+  // Called as each stage begins, for progress reporting
+  onStage?: (stage: PipelineStage) => void;
+}
+
+export interface ExtractionResult {
+  numbers: ReconciledNumber[];
+  // Raw OCR text, kept for the review preview
+  text: string;
+  cached: boolean;
+  durations: StageDurations;
+  // Absent for unmetered providers and cache hits
+  usage?: UsageStats;
+}
+
+export interface SourceRef {
+  sourceImage: string;
+  sourceFileId?: string;
+  sourcePage?: number;
+}
+
+/**
+ * Wraps an image as a single untouched tile. Used where no canvas exists,
+ * so the dimensions are unknown; they only matter when merging several tiles.
+ */
+export const passthroughImage = async (image: Blob): Promise<PreparedImage> => {
+  const mimeType = await detectMimeType(image);
+  const base64 = bytesToBase64(new Uint8Array(await image.arrayBuffer()));
+  return { width: 0, height: 0, sourceMimeType: mimeType, tiles: [{ base64, mimeType, offsetY: 0, height: 0 }] };
+};
+
+export const extractNumbers = async (image: PreparedImage, options: ExtractionOptions): Promise<ReconciledNumber[]> =>
+  reconcileExtraction(await performImageOCR(image, options.providerId, options.mode), options.phoneOptions, options.entityTypes);
+
+// Hashes the untouched source, then prepares and recognises it unless the cache already holds the result
+export const extractFromSource = async (source: Blob, options: ExtractionOptions): Promise<ExtractionResult> => {
+  const durations: StageDurations = {};
+  let calls = 1;
+  options.onStage?.('read');
+  const key = await timeStage(durations, 'read', async () =>
+    ocrCacheKey(
+      await sha256Hex(source),
+      getOcrProvider(options.providerId),
+      options.mode,
+      options.preprocess ? preprocessFingerprint(options.preprocess) : undefined
+    )
+  );
+  const { result, cached } = await withOcrCache(options.cache, key, async () => {
+    const image = await timeStage(durations, 'read', () =>
+      options.preprocess ? preprocessImage(source, options.preprocess) : passthroughImage(source)
+    );
+    calls = image.tiles.length;
+    options.onStage?.('ocr');
+    return timeStage(durations, 'ocr', () => performImageOCR(image, options.providerId, options.mode, options.acquire));
+  });
+  options.onStage?.('parse');
+  const numbers = await timeStage(durations, 'parse', async () =>
+    reconcileExtraction(result, options.phoneOptions, options.entityTypes)
+  );
+  // A cache hit made no provider call, so it costs nothing this time
+  const usage = cached ? undefined : toUsageStats(result, options.prices || DEFAULT_PRICE_TABLE, calls);
+  return { numbers, text: result.text, cached, durations, usage };
+};
+
+// Drops numbers already captured in the batch and records the new ones in `known`
+export const toExtractedNumbers = (numbers: ReconciledNumber[], source: SourceRef, known: Set<string>): ExtractedNumber[] => {
+  const fresh: ExtractedNumber[] = numbers
+    .filter(num => !known.has(num.formatted))
+    .map(num => ({
+      ...num,
+      id: Math.random().toString(36).substr(2, 9),
+      ...source,
+      reviewStatus: 'pending' as const,
+    }));
+  fresh.forEach(num => known.add(num.formatted));
+  return fresh;
+};
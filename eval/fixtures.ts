@@ -0,0 +1,84 @@
+// Implement loading and recording of labelled evaluation fixtures
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
+import { DEFAULT_PHONE_OPTIONS, OcrResult, PhoneParseOptions, RegionCode, parsePhoneNumber } from '../core';
+
+// On-disk shape of eval/fixtures/<name>.json
+interface FixtureFile {
+  description?: string;
+  // Image path relative to the fixture file, for runs against a live provider
+  image?: string;
+  // Provider response captured earlier, replayed without network access
+  ocr?: OcrResult;
+  // Provider, prompt version and mode that produced `ocr`
+  recordedWith?: string;
+  // Numbers as a person reads them off the image; any written form the numbering plans accept
+  expected: string[];
+  defaultRegion?: RegionCode;
+  allowedRegions?: RegionCode[];
+}
+
+export interface Fixture {
+  name: string;
+  path: string;
+  description?: string;
+  image?: string;
+  ocr?: OcrResult;
+  recordedWith?: string;
+  // Expected numbers in E.164
+  expected: string[];
+  phoneOptions: PhoneParseOptions;
+}
+
+export class FixtureError extends Error {}
+
+const toFixture = (path: string, raw: FixtureFile): Fixture => {
+  const name = basename(path, '.json');
+  if (!Array.isArray(raw.expected)) throw new FixtureError(`${name}: "expected" must be an array of numbers`);
+  if (!raw.image && !raw.ocr) throw new FixtureError(`${name}: needs an "image" or a recorded "ocr" response`);
+
+  const allowedRegions = raw.allowedRegions || DEFAULT_PHONE_OPTIONS.allowedRegions;
+  const defaultRegion = raw.defaultRegion || (allowedRegions.includes(DEFAULT_PHONE_OPTIONS.defaultRegion) ? DEFAULT_PHONE_OPTIONS.defaultRegion : allowedRegions[0]);
+  const phoneOptions: PhoneParseOptions = { defaultRegion, allowedRegions };
+  // A label the numbering plans reject could never be matched, so it is a corpus error rather than a miss
+  const expected = raw.expected.map(label => {
+    const parsed = parsePhoneNumber(label, phoneOptions);
+    if (!parsed) throw new FixtureError(`${name}: expected number "${label}" is not valid in ${allowedRegions.join(', ')}`);
+    return parsed.e164;
+  });
+
+  return {
+    name,
+    path,
+    description: raw.description,
+    image: raw.image ? resolve(dirname(path), raw.image) : undefined,
+    ocr: raw.ocr,
+    recordedWith: raw.recordedWith,
+    expected: [...new Set(expected)],
+    phoneOptions,
+  };
+};
+
+export const loadFixtures = async (dir: string, only?: RegExp): Promise<Fixture[]> => {
+  const names = (await readdir(dir)).filter(name => name.endsWith('.json')).sort();
+  const fixtures: Fixture[] = [];
+  for (const name of names) {
+    if (only && !only.test(basename(name, '.json'))) continue;
+    const path = join(dir, name);
+    let raw: FixtureFile;
+    try {
+      raw = JSON.parse(await readFile(path, 'utf8')) as FixtureFile;
+    } catch (err) {
+      throw new FixtureError(`${name}: ${(err as Error).message}`);
+    }
+    fixtures.push(toFixture(path, raw));
+  }
+  return fixtures;
+};
+
+// Stores a live provider response in the fixture so later runs can replay it offline
+export const recordFixture = async (fixture: Fixture, ocr: OcrResult, recordedWith: string): Promise<void> => {
+  const raw = JSON.parse(await readFile(fixture.path, 'utf8')) as FixtureFile;
+  const { usage: _usage, ...response } = ocr;
+  await writeFile(fixture.path, `${JSON.stringify({ ...raw, ocr: response, recordedWith }, null, 2)}\n`);
+};
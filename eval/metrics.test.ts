@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { FixtureScore, aggregateScores, fixtureScores, regressions, scoreFixture } from './metrics';
+
+describe('scoreFixture', () => {
+  it.each<[string[], string[], number, string[], string[]]>([
+    [['+919876543210'], ['+919876543210'], 1, [], []],
+    [['+919876543210', '+918023456789'], ['+919876543210'], 1, [], ['+918023456789']],
+    [['+919876543210'], ['+919876543210', '+917012345678'], 1, ['+917012345678'], []],
+    [[], ['+917012345678'], 0, ['+917012345678'], []],
+    [['+919876543210'], ['+919876543210', '+919876543210'], 1, [], []],
+    [['+919988776655', '+919876543210'], ['+918888888888', '+917777777777'], 0, ['+917777777777', '+918888888888'], ['+919876543210', '+919988776655']],
+  ])('scores expected %j against extracted %j', (expected, extracted, truePositives, unexpected, missed) => {
+    expect(scoreFixture('f', expected, extracted)).toEqual({ name: 'f', truePositives, unexpected, missed });
+  });
+});
+
+const score = (truePositives: number, unexpected: number, missed: number): FixtureScore => ({
+  name: 'f',
+  truePositives,
+  unexpected: Array.from({ length: unexpected }, (_, i) => `+u${i}`),
+  missed: Array.from({ length: missed }, (_, i) => `+m${i}`),
+});
+
+describe('aggregateScores', () => {
+  it.each<[string, FixtureScore[], number, number, number]>([
+    ['an empty corpus', [], 1, 1, 1],
+    ['a fixture with nothing expected or found', [score(0, 0, 0)], 1, 1, 1],
+    ['a perfect fixture', [score(3, 0, 0)], 1, 1, 1],
+    ['a fixture that found nothing it should', [score(0, 2, 2)], 0, 0, 0],
+    ['numbers across fixtures, not fixtures', [score(9, 1, 0), score(0, 0, 1)], 0.9, 0.9, 0.9],
+    ['misses and false positives separately', [score(2, 2, 0), score(2, 0, 6)], 4 / 6, 0.4, 0.5],
+  ])('micro-averages %s', (_label, scores, precision, recall, f1) => {
+    const result = aggregateScores(scores);
+    expect(result.precision).toBeCloseTo(precision);
+    expect(result.recall).toBeCloseTo(recall);
+    expect(result.f1).toBeCloseTo(f1);
+  });
+
+  it('scores one fixture on its own', () => {
+    expect(fixtureScores(score(1, 1, 3))).toEqual({ precision: 0.5, recall: 0.25, f1: 1 / 3 });
+  });
+});
+
+describe('regressions', () => {
+  it.each<[number, number, string[]]>([
+    [0.9, 0.8, []],
+    [0.95, 0.85, []],
+    [0.89, 0.8, ['precision']],
+    [0.9, 0.79, ['recall']],
+    [0.5, 0.5, ['precision', 'recall']],
+  ])('compares precision %d and recall %d with a 0.9 / 0.8 baseline', (precision, recall, failing) => {
+    expect(regressions({ precision, recall, f1: 0 }, { precision: 0.9, recall: 0.8 })).toEqual(failing);
+  });
+});
@@ -0,0 +1,54 @@
+// Implement precision and recall scoring of extracted numbers against labelled expectations
+
+export interface FixtureScore {
+  name: string;
+  truePositives: number;
+  // Extracted but not labelled: misreads, or digits that are not phone numbers
+  unexpected: string[];
+  // Labelled but not extracted
+  missed: string[];
+}
+
+export interface Scores {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface Baseline {
+  precision: number;
+  recall: number;
+}
+
+export const scoreFixture = (name: string, expected: string[], extracted: string[]): FixtureScore => {
+  const want = new Set(expected);
+  const got = new Set(extracted);
+  return {
+    name,
+    truePositives: [...got].filter(num => want.has(num)).length,
+    unexpected: [...got].filter(num => !want.has(num)).sort(),
+    missed: [...want].filter(num => !got.has(num)).sort(),
+  };
+};
+
+// Nothing expected and nothing found counts as perfect rather than undefined
+const ratio = (hits: number, total: number): number => (total === 0 ? 1 : hits / total);
+
+/**
+ * Micro-averaged over every number in the corpus, so a fixture with many
+ * numbers weighs more than a fixture with one.
+ */
+export const aggregateScores = (scores: FixtureScore[]): Scores => {
+  const tp = scores.reduce((sum, s) => sum + s.truePositives, 0);
+  const fp = scores.reduce((sum, s) => sum + s.unexpected.length, 0);
+  const fn = scores.reduce((sum, s) => sum + s.missed.length, 0);
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  return { precision, recall, f1: precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall) };
+};
+
+export const fixtureScores = (score: FixtureScore): Scores => aggregateScores([score]);
+
+// Names of the metrics that fell below the baseline; empty when the run passes
+export const regressions = (scores: Scores, baseline: Baseline): (keyof Baseline)[] =>
+  (['precision', 'recall'] as const).filter(metric => scores[metric] < baseline[metric]);
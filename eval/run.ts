@@ -0,0 +1,219 @@
+// Implement the accuracy evaluation runner that scores a provider against the labelled fixtures
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  ExtractionMode,
+  OcrResult,
+  getOcrProvider,
+  listOcrProviders,
+  passthroughImage,
+  performImageOCR,
+  reconcileExtraction,
+} from '../core';
+import { Fixture, FixtureError, loadFixtures, recordFixture } from './fixtures';
+import { Baseline, FixtureScore, Scores, aggregateScores, fixtureScores, regressions, scoreFixture } from './metrics';
+
+const EXIT_OK = 0;
+const EXIT_REGRESSED = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILED = 3;
+
+const REPLAY = 'replay';
+
+const USAGE = `Usage: npm run eval -- [options]
+
+  -p, --provider <id>    ${REPLAY} (recorded responses, offline) or a live provider: ${listOcrProviders().map(p => p.id).join(', ')} [${REPLAY}]
+  -m, --mode <mode>      text | structured, for live providers [text]
+  -d, --fixtures <dir>   Folder of labelled fixtures [eval/fixtures]
+  -b, --baseline <file>  Minimum precision and recall per provider [eval/baseline.json]
+      --only <regex>     Evaluate only fixtures whose name matches
+      --record           Store live responses in the fixtures for later replay
+      --update-baseline  Write this run's scores as the provider's new baseline
+      --json <file>      Write the full report as JSON
+  -h, --help             Show this help
+
+Exit codes: 0 at or above baseline, 1 below baseline, 2 invalid usage or fixtures, 3 nothing evaluated.`;
+
+class UsageError extends Error {}
+
+// Keyed by provider id, since a live engine and the recorded replay reach different scores
+type BaselineFile = Record<string, Baseline>;
+
+interface FixtureReport extends FixtureScore, Scores {
+  error?: string;
+}
+
+const parseCli = (argv: string[]) => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      provider: { type: 'string', short: 'p', default: REPLAY },
+      mode: { type: 'string', short: 'm', default: 'text' },
+      fixtures: { type: 'string', short: 'd', default: 'eval/fixtures' },
+      baseline: { type: 'string', short: 'b', default: 'eval/baseline.json' },
+      only: { type: 'string' },
+      record: { type: 'boolean', default: false },
+      'update-baseline': { type: 'boolean', default: false },
+      json: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.mode !== 'text' && values.mode !== 'structured') throw new UsageError(`--mode must be text or structured`);
+  if (values.record && values.provider === REPLAY) throw new UsageError(`--record needs a live provider`);
+  let only: RegExp | undefined;
+  try {
+    only = values.only ? new RegExp(values.only) : undefined;
+  } catch {
+    throw new UsageError(`--only expects a regular expression, got "${values.only}"`);
+  }
+
+  return {
+    providerId: values.provider as string,
+    mode: values.mode as ExtractionMode,
+    fixturesDir: values.fixtures as string,
+    baselineFile: values.baseline as string,
+    only,
+    record: Boolean(values.record),
+    updateBaseline: Boolean(values['update-baseline']),
+    jsonFile: values.json,
+    help: Boolean(values.help),
+  };
+};
+
+const readBaselines = async (path: string): Promise<BaselineFile> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as BaselineFile;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw err;
+  }
+};
+
+// Rounded down so the run that set the baseline always passes it
+const floorScore = (value: number): number => Math.floor(value * 10000) / 10000;
+
+const formatScore = (value: number): string => value.toFixed(3);
+
+const run = async (argv: string[]): Promise<number> => {
+  let options: ReturnType<typeof parseCli>;
+  try {
+    options = parseCli(argv);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  const live = options.providerId !== REPLAY;
+  if (live) {
+    // Assigning undefined would store the string "undefined" and make Gemini look configured
+    if (process.env.GEMINI_API_KEY) process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+    try {
+      const provider = getOcrProvider(options.providerId);
+      if (!provider.isAvailable()) {
+        console.error(`OCR provider ${provider.label} is unavailable in this environment.`);
+        return EXIT_FAILED;
+      }
+    } catch (err) {
+      console.error(`${(err as Error).message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+  }
+
+  let fixtures: Fixture[];
+  try {
+    fixtures = await loadFixtures(options.fixturesDir, options.only);
+  } catch (err) {
+    if (!(err instanceof FixtureError)) throw err;
+    console.error(`Invalid fixture ${err.message}`);
+    return EXIT_USAGE;
+  }
+
+  const recognize = async (fixture: Fixture): Promise<OcrResult | undefined> => {
+    if (!live) return fixture.ocr;
+    if (!fixture.image) return undefined;
+    const image = await passthroughImage(new Blob([await readFile(fixture.image)]));
+    const result = await performImageOCR(image, options.providerId, options.mode);
+    if (options.record) {
+      const provider = getOcrProvider(options.providerId);
+      await recordFixture(fixture, result, `${provider.id}:${provider.promptVersion}:${options.mode}`);
+    }
+    return result;
+  };
+
+  const reports: FixtureReport[] = [];
+  for (const fixture of fixtures) {
+    let extracted: string[];
+    let error: string | undefined;
+    try {
+      const result = await recognize(fixture);
+      if (!result) {
+        console.error(`SKIP  ${fixture.name}: no ${live ? 'image' : 'recorded response'}`);
+        continue;
+      }
+      // Only phone numbers are labelled, so the other extractors stay off
+      extracted = reconcileExtraction(result, fixture.phoneOptions, ['phone']).map(num => num.formatted);
+    } catch (err) {
+      // A failed call misses every expected number rather than dropping out of the denominator
+      extracted = [];
+      error = (err as Error).message;
+    }
+
+    const score = scoreFixture(fixture.name, fixture.expected, extracted);
+    const report: FixtureReport = { ...score, ...fixtureScores(score), error };
+    reports.push(report);
+
+    const clean = !error && score.unexpected.length === 0 && score.missed.length === 0;
+    console.log(`${error ? 'ERROR' : clean ? 'PASS ' : 'DIFF '} ${fixture.name}  P ${formatScore(report.precision)}  R ${formatScore(report.recall)}`);
+    if (error) console.log(`        ${error}`);
+    score.unexpected.forEach(num => console.log(`        + ${num}`));
+    score.missed.forEach(num => console.log(`        - ${num}`));
+  }
+
+  if (reports.length === 0) {
+    console.error(`No fixtures evaluated in ${options.fixturesDir}.`);
+    return EXIT_FAILED;
+  }
+
+  const scores = aggregateScores(reports);
+  const baselines = await readBaselines(options.baselineFile);
+  const source = live ? `${options.providerId} (${options.mode} mode)` : REPLAY;
+  console.log(`\n${reports.length} fixture(s) with ${source}: precision ${formatScore(scores.precision)}, recall ${formatScore(scores.recall)}, F1 ${formatScore(scores.f1)}`);
+
+  if (options.updateBaseline) {
+    baselines[options.providerId] = { precision: floorScore(scores.precision), recall: floorScore(scores.recall) };
+    await writeFile(options.baselineFile, `${JSON.stringify(baselines, null, 2)}\n`);
+    console.log(`Baseline for ${options.providerId} set in ${options.baselineFile}.`);
+  }
+  const baseline: Baseline | undefined = baselines[options.providerId];
+  const failing = baseline ? regressions(scores, baseline) : [];
+
+  if (options.jsonFile) {
+    const report = { provider: options.providerId, mode: live ? options.mode : undefined, scores, baseline, passed: failing.length === 0, fixtures: reports };
+    await writeFile(options.jsonFile, `${JSON.stringify(report, null, 2)}\n`);
+  }
+
+  if (!baseline) {
+    console.error(`No baseline for ${options.providerId} in ${options.baselineFile}; pass --update-baseline to set one.`);
+    return EXIT_USAGE;
+  }
+  if (failing.length > 0) {
+    failing.forEach(metric => console.error(`BELOW BASELINE: ${metric} ${formatScore(scores[metric])} < ${formatScore(baseline[metric])}`));
+    return EXIT_REGRESSED;
+  }
+  console.log(`At or above baseline (precision ${formatScore(baseline.precision)}, recall ${formatScore(baseline.recall)}).`);
+  return EXIT_OK;
+};
+
+run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(err => {
+    console.error(err instanceof Error ? err.stack || err.message : err);
+    process.exitCode = EXIT_FAILED;
+  });
@@ -1,30 +1,124 @@
 // Implement Gemini-powered OCR using the @google/genai SDK
-import { GoogleGenAI } from "@google/genai";
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { OcrProvider, OcrRecord, OcrResult, TokenUsage } from "../types";
 
-export const performOCR = async (base64Image: string): Promise<{ text: string }> => {
+const GEMINI_MODEL = 'gemini-3-flash-preview';
+// Bump when OCR_PROMPT, STRUCTURED_PROMPT or the schema changes so cached results are not reused
+const PROMPT_VERSION = 2;
+const OCR_PROMPT = 'Analyze this image and perform complete text extraction. Pay specific attention to identifying any mobile or phone numbers for data processing.';
+const STRUCTURED_PROMPT = 'Analyze this image and extract every phone or mobile number. For each one, return the name or label written next to it (empty if none), the number exactly as written, any email address, UPI ID and company or organisation name written for the same contact (empty if none), your confidence between 0 and 1, and its bounding box as x, y, width, height on a 0-1000 scale relative to the image. Also return the complete extracted text of the image.';
+
+// JSON response schema so each hit comes back as a discrete record instead of free text
+const STRUCTURED_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    records: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          number: { type: Type.STRING },
+          email: { type: Type.STRING },
+          upiId: { type: Type.STRING },
+          organization: { type: Type.STRING },
+          confidence: { type: Type.NUMBER },
+          boundingBox: {
+            type: Type.OBJECT,
+            properties: {
+              x: { type: Type.NUMBER },
+              y: { type: Type.NUMBER },
+              width: { type: Type.NUMBER },
+              height: { type: Type.NUMBER },
+            },
+            required: ['x', 'y', 'width', 'height'],
+          },
+        },
+        required: ['number', 'confidence'],
+      },
+    },
+  },
+  required: ['text', 'records'],
+};
+
+const buildParts = (base64Image: string, mimeType: string, prompt: string) => ({
+  parts: [
+    {
+      inlineData: {
+        mimeType,
+        data: base64Image,
+      },
+    },
+    {
+      text: prompt,
+    },
+  ],
+});
+
+// Thinking tokens are billed at the output rate, so they count as output here
+const readUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount || 0,
+    outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+    totalTokens: meta.totalTokenCount || 0,
+  };
+};
+
+export const performGeminiOCR = async (base64Image: string, mimeType = 'image/jpeg'): Promise<OcrResult> => {
   // Initialize the Gemini client using the mandatory API_KEY environment variable
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
   // Use gemini-3-flash-preview for optimized speed and high accuracy in text extraction tasks
   const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: 'image/jpeg',
-            data: base64Image,
-          },
-        },
-        {
-          text: 'Analyze this image and perform complete text extraction. Pay specific attention to identifying any mobile or phone numbers for data processing.',
-        },
-      ],
-    },
+    model: GEMINI_MODEL,
+    contents: buildParts(base64Image, mimeType, OCR_PROMPT),
   });
 
   // Access the text property directly from the response as per the latest SDK guidelines
   return { 
-    text: response.text || "" 
+    text: response.text || "",
+    usage: readUsage(response),
+    model: GEMINI_MODEL,
   };
 };
+
+export const performGeminiStructuredOCR = async (base64Image: string, mimeType = 'image/jpeg'): Promise<OcrResult> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: buildParts(base64Image, mimeType, STRUCTURED_PROMPT),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: STRUCTURED_SCHEMA,
+    },
+  });
+
+  const parsed = JSON.parse(response.text || '{}') as { text?: string; records?: OcrRecord[] };
+  return {
+    text: parsed.text || '',
+    records: (parsed.records || []).map(record => ({
+      ...record,
+      name: record.name?.trim() || undefined,
+      email: record.email?.trim() || undefined,
+      upiId: record.upiId?.trim() || undefined,
+      organization: record.organization?.trim() || undefined,
+    })),
+    usage: readUsage(response),
+    model: GEMINI_MODEL,
+  };
+};
+
+export const geminiProvider: OcrProvider = {
+  id: 'gemini',
+  label: 'Gemini Cloud',
+  description: `${GEMINI_MODEL} via the Google GenAI API. Images are uploaded for analysis.`,
+  offline: false,
+  promptVersion: `${GEMINI_MODEL}/v${PROMPT_VERSION}`,
+  isAvailable: () => Boolean(process.env.API_KEY),
+  recognize: performGeminiOCR,
+  extractStructured: performGeminiStructuredOCR,
+};
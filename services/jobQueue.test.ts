@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueueSettings } from '../types';
+import { JobContext, createJobQueue } from './jobQueue';
+
+const settings = (overrides: Partial<QueueSettings> = {}): QueueSettings => ({
+  concurrency: 2,
+  requestsPerMinute: 6000,
+  maxRetries: 3,
+  ...overrides,
+});
+
+// A task whose outcome the test decides after it has started
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe('createJobQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it.each([1, 2, 3])('runs at most %d jobs at a time', async concurrency => {
+    const queue = createJobQueue(settings({ concurrency }));
+    const tasks = Array.from({ length: 5 }, deferred);
+    let running = 0;
+    let peak = 0;
+    tasks.forEach((task, i) =>
+      queue.add(`job-${i}`, async () => {
+        peak = Math.max(peak, ++running);
+        try {
+          return await task.promise;
+        } finally {
+          running--;
+        }
+      })
+    );
+    for (const task of tasks) {
+      await flush();
+      task.resolve('ok');
+    }
+    await queue.onIdle();
+    expect(peak).toBe(concurrency);
+  });
+
+  it('reports a job as started only once it holds a rate-limit token', async () => {
+    const onStart = vi.fn();
+    // 6 per minute holds a single token and adds the next one after 10 seconds
+    const queue = createJobQueue(settings({ requestsPerMinute: 6 }), { onStart });
+    queue.add('first', async () => 'first');
+    queue.add('second', async () => 'second');
+    await flush();
+    expect(onStart.mock.calls.map(([id]) => id)).toEqual(['first']);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(onStart.mock.calls.map(([id]) => id)).toEqual(['first', 'second']);
+  });
+
+  it('takes a further token each time a task calls acquire', async () => {
+    const queue = createJobQueue(settings({ requestsPerMinute: 6 }));
+    const tiles = vi.fn();
+    queue.add('document', async ({ acquire }: JobContext) => {
+      tiles();
+      await acquire();
+      tiles();
+      return 'done';
+    });
+    await flush();
+    expect(tiles).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(tiles).toHaveBeenCalledTimes(2);
+  });
+
+  it.each<[string, number, number[]]>([
+    ['doubles the delay after each attempt', 0.999999, [1000, 2000, 4000]],
+    ['jitters down to half the delay', 0, [500, 1000, 2000]],
+  ])('%s', async (_label, random, delays) => {
+    vi.spyOn(Math, 'random').mockReturnValue(random);
+    const onRetry = vi.fn();
+    const onError = vi.fn();
+    const queue = createJobQueue(settings(), { onRetry, onError });
+    queue.add('job', async () => {
+      throw httpError(503);
+    });
+    await vi.runAllTimersAsync();
+    await queue.onIdle();
+    expect(onRetry.mock.calls.map(([, , delay]) => Math.round(delay))).toEqual(delays);
+    expect(onError).toHaveBeenCalledWith('job', expect.objectContaining({ reason: 'server_error', attempts: 4 }));
+  });
+
+  it('caps the backoff at 30 seconds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    const onRetry = vi.fn();
+    const queue = createJobQueue(settings({ maxRetries: 7 }), { onRetry });
+    queue.add('job', async () => {
+      throw httpError(429);
+    });
+    await vi.runAllTimersAsync();
+    expect(onRetry.mock.calls.map(([, , delay]) => Math.round(delay))).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+  });
+
+  it.each<[string, unknown]>([
+    ['invalid input', httpError(400)],
+    ['an auth failure', httpError(401)],
+    ['an unknown error', new Error('boom')],
+  ])('does not retry %s', async (_label, err) => {
+    const onRetry = vi.fn();
+    const onError = vi.fn();
+    const queue = createJobQueue(settings(), { onRetry, onError });
+    queue.add('job', async () => {
+      throw err;
+    });
+    await queue.onIdle();
+    expect(onRetry).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith('job', expect.objectContaining({ retryable: false, attempts: 1 }));
+  });
+
+  it('succeeds after a retry', async () => {
+    const onSuccess = vi.fn();
+    const queue = createJobQueue(settings(), { onSuccess });
+    let calls = 0;
+    queue.add('job', async ({ attempt }) => {
+      calls++;
+      if (attempt === 1) throw httpError(500);
+      return `attempt ${attempt}`;
+    });
+    await vi.runAllTimersAsync();
+    await queue.onIdle();
+    expect(calls).toBe(2);
+    expect(onSuccess).toHaveBeenCalledWith('job', 'attempt 2');
+  });
+
+  it('stops dispatching while the batch is paused', async () => {
+    const onStart = vi.fn();
+    const queue = createJobQueue(settings({ concurrency: 1 }), { onStart });
+    const first = deferred();
+    queue.add('first', () => first.promise);
+    queue.add('second', async () => 'second');
+    await flush();
+    queue.pause();
+    expect(queue.isPaused()).toBe(true);
+    first.resolve('first');
+    await flush();
+    expect(onStart.mock.calls.map(([id]) => id)).toEqual(['first']);
+
+    queue.resume();
+    await queue.onIdle();
+    expect(onStart.mock.calls.map(([id]) => id)).toEqual(['first', 'second']);
+  });
+
+  it('pauses a running job without spending an attempt, and resumes it', async () => {
+    const onPause = vi.fn();
+    const onResume = vi.fn();
+    const onSuccess = vi.fn();
+    const queue = createJobQueue(settings(), { onPause, onResume, onSuccess });
+    const attempts: number[] = [];
+    const first = deferred();
+    queue.add('job', ({ attempt }) => {
+      attempts.push(attempt);
+      return attempts.length === 1 ? first.promise : Promise.resolve('resumed');
+    });
+    await flush();
+    queue.pause('job');
+    await flush();
+    expect(onPause).toHaveBeenCalledWith('job');
+
+    queue.resume('job');
+    await queue.onIdle();
+    expect(onResume).toHaveBeenCalledWith('job');
+    expect(attempts).toEqual([1, 1]);
+    expect(onSuccess).toHaveBeenCalledWith('job', 'resumed');
+  });
+
+  it('cancels running, queued and backing-off jobs and then goes idle', async () => {
+    const onCancel = vi.fn();
+    const onSuccess = vi.fn();
+    const queue = createJobQueue(settings({ concurrency: 1 }), { onCancel, onSuccess });
+    queue.add('backoff', async () => {
+      throw httpError(503);
+    });
+    queue.add('running', () => new Promise<string>(() => undefined));
+    queue.add('queued', async () => 'queued');
+    await flush();
+
+    queue.cancel();
+    await queue.onIdle();
+    expect(onCancel.mock.calls.map(([id]) => id).sort()).toEqual(['backoff', 'queued', 'running']);
+    await vi.runAllTimersAsync();
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,217 @@
+// Implement a framework-agnostic job queue with concurrency, rate limiting, retries and cancellation
+import { ProcessingError, QueueSettings } from '../types';
+import { CancelledError, classifyError } from './processingErrors';
+import { createTokenBucket } from './rateLimiter';
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 2,
+  requestsPerMinute: 30,
+  maxRetries: 3,
+};
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+export interface JobContext {
+  signal: AbortSignal;
+  attempt: number;
+  // The job starts holding one rate-limit token; tasks that make further provider calls take one per call
+  acquire: () => Promise<void>;
+}
+
+export type JobTask<T> = (ctx: JobContext) => Promise<T>;
+
+export interface JobQueueEvents<T> {
+  onStart?: (id: string, attempt: number) => void;
+  onRetry?: (id: string, error: ProcessingError, delayMs: number) => void;
+  onSuccess?: (id: string, result: T) => void;
+  onError?: (id: string, error: ProcessingError) => void;
+  onPause?: (id: string) => void;
+  onResume?: (id: string) => void;
+  onCancel?: (id: string) => void;
+}
+
+export interface JobQueue {
+  add: (id: string, task: JobTask<unknown>) => void;
+  // Without an id these act on the whole batch
+  pause: (id?: string) => void;
+  resume: (id?: string) => void;
+  cancel: (id?: string) => void;
+  isPaused: () => boolean;
+  // Resolves once every job has succeeded, failed or been cancelled
+  onIdle: () => Promise<void>;
+}
+
+type JobState = 'queued' | 'running' | 'backoff' | 'paused' | 'done';
+
+interface Job {
+  id: string;
+  task: JobTask<unknown>;
+  state: JobState;
+  attempts: number;
+  controller?: AbortController;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const PAUSE = 'pause';
+const CANCEL = 'cancel';
+
+// Exponential backoff with jitter so parallel workers do not retry in lockstep
+const backoffDelay = (attempt: number): number =>
+  Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+
+// Providers cannot all abort in-flight requests, so abandon the promise instead of waiting on it
+const raceAbort = <T,>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    signal.addEventListener('abort', () => reject(new CancelledError()), { once: true });
+    promise.then(resolve, reject);
+  });
+
+export const createJobQueue = <T,>(settings: QueueSettings, events: JobQueueEvents<T> = {}): JobQueue => {
+  const jobs = new Map<string, Job>();
+  const ready: string[] = [];
+  const bucket = createTokenBucket(settings.requestsPerMinute);
+  let running = 0;
+  let paused = false;
+  let idleWaiters: (() => void)[] = [];
+
+  const checkIdle = () => {
+    if (Array.from(jobs.values()).every(job => job.state === 'done')) {
+      idleWaiters.forEach(resolve => resolve());
+      idleWaiters = [];
+    }
+  };
+
+  const enqueue = (job: Job) => {
+    job.state = 'queued';
+    ready.push(job.id);
+    pump();
+  };
+
+  const run = async (job: Job) => {
+    job.state = 'running';
+    job.attempts++;
+    running++;
+    const controller = new AbortController();
+    job.controller = controller;
+
+    try {
+      // Reported only once a token is granted, so a job waiting on the rate limit does not show as started
+      await bucket.acquire(controller.signal);
+      events.onStart?.(job.id, job.attempts);
+      const result = await raceAbort(job.task({ signal: controller.signal, attempt: job.attempts, acquire: () => bucket.acquire(controller.signal) }), controller.signal);
+      job.state = 'done';
+      events.onSuccess?.(job.id, result as T);
+    } catch (err) {
+      if (controller.signal.aborted && controller.signal.reason === PAUSE) {
+        // An interrupted attempt does not count against the retry budget
+        job.attempts--;
+        job.state = 'paused';
+        events.onPause?.(job.id);
+      } else if (controller.signal.aborted) {
+        job.state = 'done';
+        events.onCancel?.(job.id);
+      } else {
+        const error = classifyError(err, job.attempts);
+        if (error.retryable && job.attempts <= settings.maxRetries) {
+          const delay = backoffDelay(job.attempts);
+          job.state = 'backoff';
+          job.timer = setTimeout(() => enqueue(job), delay);
+          events.onRetry?.(job.id, error, delay);
+        } else {
+          job.state = 'done';
+          events.onError?.(job.id, error);
+        }
+      }
+    } finally {
+      job.controller = undefined;
+      running--;
+      pump();
+      checkIdle();
+    }
+  };
+
+  function pump() {
+    while (!paused && running < settings.concurrency && ready.length > 0) {
+      const job = jobs.get(ready.shift() as string);
+      if (job && job.state === 'queued') run(job);
+    }
+  }
+
+  const targets = (id?: string): Job[] =>
+    id ? [jobs.get(id)].filter((job): job is Job => Boolean(job)) : Array.from(jobs.values());
+
+  const removeFromReady = (id: string) => {
+    const index = ready.indexOf(id);
+    if (index >= 0) ready.splice(index, 1);
+  };
+
+  return {
+    add: (id, task) => {
+      const job: Job = { id, task, state: 'queued', attempts: 0 };
+      jobs.set(id, job);
+      enqueue(job);
+    },
+
+    pause: id => {
+      if (!id) {
+        // Batch pause stops dispatching; attempts already in flight are allowed to finish
+        paused = true;
+        return;
+      }
+      const job = jobs.get(id);
+      if (!job) return;
+      if (job.state === 'running') {
+        job.controller?.abort(PAUSE);
+        return;
+      }
+      if (job.state === 'queued' || job.state === 'backoff') {
+        clearTimeout(job.timer);
+        removeFromReady(id);
+        job.state = 'paused';
+        events.onPause?.(id);
+      }
+    },
+
+    resume: id => {
+      if (!id) {
+        paused = false;
+        pump();
+        return;
+      }
+      const job = jobs.get(id);
+      if (job?.state === 'paused') {
+        events.onResume?.(id);
+        enqueue(job);
+      }
+    },
+
+    cancel: id => {
+      for (const job of targets(id)) {
+        if (job.state === 'done') continue;
+        if (job.state === 'running') {
+          job.controller?.abort(CANCEL);
+          continue;
+        }
+        clearTimeout(job.timer);
+        removeFromReady(job.id);
+        job.state = 'done';
+        events.onCancel?.(job.id);
+      }
+      if (!id) paused = false;
+      checkIdle();
+    },
+
+    isPaused: () => paused,
+
+    onIdle: () =>
+      new Promise(resolve => {
+        idleWaiters.push(resolve);
+        checkIdle();
+      }),
+  };
+};
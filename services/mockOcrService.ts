@@ -0,0 +1,61 @@
+// Implement a deterministic fixture provider for developing the pipeline without a key or network
+import { OcrProvider, OcrResult } from '../types';
+
+export const MOCK_OCR_FIXTURES: Required<Pick<OcrResult, 'text' | 'records'>>[] = [
+  {
+    text: 'Ravi Kumar\nKumar Logistics Pvt Ltd\n+91 98765 43210\nravi@kumarlogistics.in\n\nOffice: 080-2345-6789',
+    records: [
+      { name: 'Ravi Kumar', number: '+91 98765 43210', email: 'ravi@kumarlogistics.in', organization: 'Kumar Logistics Pvt Ltd', confidence: 0.97, boundingBox: { x: 80, y: 220, width: 420, height: 60 } },
+      { name: 'Office', number: '080-2345-6789', confidence: 0.74, boundingBox: { x: 80, y: 320, width: 460, height: 60 } },
+    ],
+  },
+  {
+    text: 'Group chat export\nPriya: call me on 9123456780\nAmit - 91 87654 32109',
+    records: [
+      { name: 'Priya', number: '9123456780', confidence: 0.93, boundingBox: { x: 60, y: 410, width: 600, height: 55 } },
+      { name: 'Amit', number: '91 87654 32109', confidence: 0.88, boundingBox: { x: 60, y: 500, width: 520, height: 55 } },
+    ],
+  },
+  {
+    text: 'Invoice #4471\nSupport: 7012345678\nPay via UPI: billing@okaxis',
+    records: [
+      { name: 'Support', number: '7012345678', upiId: 'billing@okaxis', confidence: 0.91, boundingBox: { x: 120, y: 640, width: 380, height: 50 } },
+    ],
+  },
+  {
+    text: 'Blurry capture. No readable numbers here.',
+    records: [],
+  },
+];
+
+// Stable string hash so the same image always maps to the same fixture
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const pickFixture = (base64Image: string) =>
+  MOCK_OCR_FIXTURES[hashString(base64Image) % MOCK_OCR_FIXTURES.length];
+
+export const performMockOCR = async (base64Image: string): Promise<OcrResult> => {
+  return { text: pickFixture(base64Image).text };
+};
+
+export const performMockStructuredOCR = async (base64Image: string): Promise<OcrResult> => {
+  const fixture = pickFixture(base64Image);
+  return { text: fixture.text, records: fixture.records.map(record => ({ ...record })) };
+};
+
+export const mockProvider: OcrProvider = {
+  id: 'mock',
+  label: 'Fixture Replay',
+  description: 'Deterministic canned OCR text for development and testing. No network access.',
+  offline: true,
+  promptVersion: 'fixtures/v2',
+  isAvailable: () => true,
+  recognize: performMockOCR,
+  extractStructured: performMockStructuredOCR,
+};
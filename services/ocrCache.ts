@@ -0,0 +1,33 @@
+// Implement content-addressed caching of OCR results so identical images are recognised once
+import { ExtractionMode, OcrProvider, OcrResult } from '../types';
+
+export interface OcrCache {
+  get: (key: string) => Promise<OcrResult | undefined>;
+  set: (key: string, result: OcrResult) => Promise<void>;
+}
+
+export const sha256Hex = async (data: Blob): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await data.arrayBuffer()));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * The mode is part of the key because text and structured calls use different
+ * prompts; `variant` covers anything else that changes the bytes sent, such
+ * as preprocessing settings.
+ */
+export const ocrCacheKey = (contentHash: string, provider: OcrProvider, mode: ExtractionMode, variant = ''): string =>
+  [contentHash, provider.id, provider.promptVersion, mode, variant].filter(Boolean).join(':');
+
+// A broken cache must never fail the extraction, so read and write errors count as misses
+export const withOcrCache = async (
+  cache: OcrCache | undefined,
+  key: string,
+  run: () => Promise<OcrResult>
+): Promise<{ result: OcrResult; cached: boolean }> => {
+  const hit = cache && (await cache.get(key).catch(() => undefined));
+  if (hit) return { result: hit, cached: true };
+  const result = await run();
+  await cache?.set(key, result).catch(() => undefined);
+  return { result, cached: false };
+};
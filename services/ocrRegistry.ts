@@ -0,0 +1,61 @@
+// Implement the OCR provider registry used by the extraction pipeline and settings panel
+import { ExtractionMode, OcrProvider, OcrResult, PreparedImage } from '../types';
+import { mergeTileResults } from '../utils/structuredExtraction';
+import { geminiProvider } from './geminiService';
+import { tesseractProvider } from './tesseractService';
+import { mockProvider } from './mockOcrService';
+
+export const DEFAULT_OCR_PROVIDER = geminiProvider.id;
+
+const providers = new Map<string, OcrProvider>();
+
+export const registerOcrProvider = (provider: OcrProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const listOcrProviders = (): OcrProvider[] => Array.from(providers.values());
+
+export const getOcrProvider = (id: string): OcrProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown OCR provider: ${id}`);
+  }
+  return provider;
+};
+
+export const supportsStructured = (provider: OcrProvider): boolean => Boolean(provider.extractStructured);
+
+// Structured mode silently degrades to plain text for providers without a schema-capable engine
+export const performOCR = (
+  base64Image: string,
+  providerId: string = DEFAULT_OCR_PROVIDER,
+  mode: ExtractionMode = 'text',
+  mimeType = 'image/jpeg'
+): Promise<OcrResult> => {
+  const provider = getOcrProvider(providerId);
+  if (mode === 'structured' && provider.extractStructured) {
+    return provider.extractStructured(base64Image, mimeType);
+  }
+  return provider.recognize(base64Image, mimeType);
+};
+
+/**
+ * Tiles are recognised one after another so a tall screenshot costs one queue
+ * slot, not several. The caller holds a rate-limit token for the first call;
+ * `acquire` is awaited before each further tile so every call is counted.
+ */
+export const performImageOCR = async (
+  image: PreparedImage,
+  providerId: string = DEFAULT_OCR_PROVIDER,
+  mode: ExtractionMode = 'text',
+  acquire?: () => Promise<void>
+): Promise<OcrResult> => {
+  const results: OcrResult[] = [];
+  for (const [index, tile] of image.tiles.entries()) {
+    if (index > 0) await acquire?.();
+    results.push(await performOCR(tile.base64, providerId, mode, tile.mimeType));
+  }
+  return mergeTileResults(image, results);
+};
+
+[geminiProvider, tesseractProvider, mockProvider].forEach(registerOcrProvider);
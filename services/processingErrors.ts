@@ -0,0 +1,46 @@
+// Implement classification of pipeline failures into typed, retry-aware error reasons
+import { ProcessingError, ProcessingErrorReason } from '../types';
+
+export class CancelledError extends Error {
+  constructor(message = 'Job cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+const RETRYABLE: ProcessingErrorReason[] = ['rate_limited', 'server_error', 'network'];
+
+// Provider SDKs surface HTTP failures with a numeric status; read it without depending on one SDK
+const statusOf = (err: unknown): number | undefined => {
+  const status = (err as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const reasonFor = (err: unknown): ProcessingErrorReason => {
+  if (err instanceof CancelledError) return 'cancelled';
+
+  const status = statusOf(err);
+  if (status === 429) return 'rate_limited';
+  if (status !== undefined && status >= 500) return 'server_error';
+  if (status === 401 || status === 403) return 'auth';
+  if (status !== undefined && status >= 400) return 'invalid_input';
+
+  const message = err instanceof Error ? err.message : String(err);
+  if (/resource.?exhausted|quota|rate.?limit/i.test(message)) return 'rate_limited';
+  if (/unavailable|overloaded|internal error/i.test(message)) return 'server_error';
+  if (err instanceof TypeError && /fetch|network/i.test(message)) return 'network';
+  if (/api.?key|permission|unauthori[sz]ed/i.test(message)) return 'auth';
+  if (/not loaded|unknown ocr provider/i.test(message)) return 'engine_unavailable';
+  if (/failed to read file/i.test(message)) return 'invalid_input';
+  return 'unknown';
+};
+
+export const classifyError = (err: unknown, attempts: number): ProcessingError => {
+  const reason = reasonFor(err);
+  return {
+    reason,
+    message: err instanceof Error ? err.message : String(err),
+    retryable: RETRYABLE.includes(reason),
+    attempts,
+  };
+};
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTokenBucket } from './rateLimiter';
+
+// Number of acquire() calls that have resolved so far
+const track = (promises: Promise<void>[]) => {
+  let settled = 0;
+  promises.forEach(p => p.then(() => settled++, () => undefined));
+  return () => settled;
+};
+
+describe('createTokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each<[number, number]>([
+    [60, 10],
+    [30, 5],
+    [5, 1],
+    [1, 1],
+  ])('starts a %d per minute bucket with %d tokens', async (perMinute, capacity) => {
+    const bucket = createTokenBucket(perMinute);
+    const settled = track(Array.from({ length: capacity + 1 }, () => bucket.acquire()));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled()).toBe(capacity);
+  });
+
+  it('grants the next token when it is due, not before', async () => {
+    const bucket = createTokenBucket(60, 1);
+    await bucket.acquire();
+    const settled = track([bucket.acquire()]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(settled()).toBe(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(settled()).toBe(1);
+  });
+
+  it('refills up to capacity while idle', async () => {
+    const bucket = createTokenBucket(60, 3);
+    await Promise.all([bucket.acquire(), bucket.acquire(), bucket.acquire()]);
+    await vi.advanceTimersByTimeAsync(60000);
+    const settled = track(Array.from({ length: 4 }, () => bucket.acquire()));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled()).toBe(3);
+  });
+
+  it('rejects with the abort reason when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort('stop');
+    await expect(createTokenBucket(60).acquire(controller.signal)).rejects.toBe('stop');
+  });
+
+  it('rejects a waiting acquire once it is aborted, without taking the token', async () => {
+    const bucket = createTokenBucket(60, 1);
+    await bucket.acquire();
+    const controller = new AbortController();
+    const waiting = bucket.acquire(controller.signal);
+    controller.abort('stop');
+    const rejection = expect(waiting).rejects.toBe('stop');
+    await vi.advanceTimersByTimeAsync(1000);
+    await rejection;
+
+    const settled = track([bucket.acquire()]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled()).toBe(1);
+  });
+});
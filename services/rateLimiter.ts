@@ -0,0 +1,37 @@
+// Implement a token-bucket rate limiter shared by all queue workers
+export interface TokenBucket {
+  acquire: (signal?: AbortSignal) => Promise<void>;
+}
+
+export const createTokenBucket = (tokensPerMinute: number, capacity = Math.max(1, Math.ceil(tokensPerMinute / 6))): TokenBucket => {
+  const rate = tokensPerMinute / 60000;
+  let tokens = capacity;
+  let lastRefill = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * rate);
+    lastRefill = now;
+  };
+
+  const acquire = (signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+      const attempt = () => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          resolve();
+          return;
+        }
+        // Sleep exactly until the next token is due rather than polling
+        setTimeout(attempt, Math.ceil((1 - tokens) / rate));
+      };
+      attempt();
+    });
+
+  return { acquire };
+};
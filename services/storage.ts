@@ -0,0 +1,450 @@
+// Implement IndexedDB persistence for sessions, image blobs and the export archive
+import { DownloadHistory, ExtractedNumber, LedgerEntry, OcrResult, ProcessingFile, ProcessingPage, ProcessingStatus } from '../types';
+import { parsePhoneNumbers } from '../utils/phoneNumbers';
+import { OcrCache } from './ocrCache';
+import { SealedPayload, blindIndex, destroyVault, isVaultEnabled, sealBytes, sealJSON, unsealBytes, unsealJSON } from './vault';
+
+const DB_NAME = 'omniextract';
+const DB_VERSION = 3;
+const LEGACY_HISTORY_KEY = 'omniextract_history';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StoredPage = Omit<ProcessingPage, 'image' | 'previewUrl'>;
+
+type StoredFile = Omit<ProcessingFile, 'file' | 'previewUrl' | 'pages'> & {
+  name: string;
+  type: string;
+  lastModified: number;
+  pages?: StoredPage[];
+};
+
+export interface SessionRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  files: StoredFile[];
+  numbers: ExtractedNumber[];
+}
+
+interface CachedOcrRecord {
+  key: string;
+  createdAt: number;
+  result: OcrResult;
+}
+
+export interface RetentionPurgeResult {
+  archives: number;
+  sessions: number;
+  ledger: number;
+  cache: number;
+}
+
+type SealedRow = { sealed: SealedPayload };
+
+type StoredRow<T> = T | SealedRow;
+
+type StoredBlob = Blob | (SealedRow & { type: string });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const request = <T,>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = event => {
+        const db = req.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('blobs');
+          db.createObjectStore('sessions', { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+          db.createObjectStore('history', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('ledger', { keyPath: 'number' }).createIndex('lastExportedAt', 'lastExportedAt');
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore('ocrCache', { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+        }
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        // Another tab is deleting or upgrading the database; holding on would block it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const store = async (name: string, mode: IDBTransactionMode = 'readonly'): Promise<IDBObjectStore> =>
+  (await openDatabase()).transaction(name, mode).objectStore(name);
+
+const isSealed = (row: object): row is SealedRow => 'sealed' in row;
+
+/**
+ * Encrypts a record when the vault is enabled. Key and index fields stay in
+ * the clear so cursors and retention purges work without the passphrase.
+ * Encryption happens before any transaction opens, since awaiting WebCrypto
+ * inside one would let it auto-commit.
+ */
+const wrap = async <T extends object, K extends keyof T>(value: T, visible: K[]): Promise<StoredRow<T>> => {
+  if (!isVaultEnabled()) return value;
+  const clear = Object.fromEntries(visible.map(key => [key, value[key]]));
+  return { ...clear, sealed: await sealJSON(value) } as SealedRow;
+};
+
+const unwrap = async <T,>(row: StoredRow<T>): Promise<T> =>
+  isSealed(row as object) ? unsealJSON<T>((row as SealedRow).sealed) : (row as T);
+
+const wrapBlob = async (blob: Blob): Promise<StoredBlob> =>
+  isVaultEnabled() ? { type: blob.type, sealed: await sealBytes(new Uint8Array(await blob.arrayBuffer())) } : blob;
+
+// Blobs are written once on ingestion; session snapshots only carry their ids
+export const saveBlob = async (id: string, blob: Blob): Promise<void> => {
+  const row = await wrapBlob(blob);
+  await request((await store('blobs', 'readwrite')).put(row, id));
+};
+
+export const deleteBlobs = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction('blobs', 'readwrite');
+  ids.forEach(id => tx.objectStore('blobs').delete(id));
+  await transactionDone(tx);
+};
+
+const loadBlob = async (id: string): Promise<Blob | undefined> => {
+  const row = await request((await store('blobs')).get(id) as IDBRequest<StoredBlob | undefined>);
+  if (row === undefined) return undefined;
+  if (row instanceof Blob) return row;
+  return new Blob([await unsealBytes(row.sealed)], { type: row.type });
+};
+
+export const saveSession = async (session: SessionRecord): Promise<void> => {
+  const row = await wrap(session, ['id', 'createdAt', 'updatedAt']);
+  await request((await store('sessions', 'readwrite')).put(row));
+};
+
+const UNFINISHED: ProcessingStatus[] = ['pending', 'processing', 'paused', 'error'];
+
+// A session is worth resuming only while some file or page still has work left
+export const isUnfinishedSession = (session: SessionRecord): boolean =>
+  session.files.some(file => (file.pages ? file.pages.some(page => UNFINISHED.includes(page.status)) : UNFINISHED.includes(file.status)));
+
+export const deleteSession = async (session: SessionRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['sessions', 'blobs'], 'readwrite');
+  tx.objectStore('sessions').delete(session.id);
+  for (const file of session.files) {
+    tx.objectStore('blobs').delete(file.id);
+    file.pages?.forEach(page => tx.objectStore('blobs').delete(page.id));
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Returns the most recent unfinished session and deletes every other one with
+ * its blobs. Each page load starts a new session, and only the latest can be
+ * offered for resume, so the rest would otherwise pile up.
+ */
+export const loadResumableSession = async (): Promise<SessionRecord | undefined> => {
+  const rows = await request((await store('sessions')).index('updatedAt').getAll() as IDBRequest<StoredRow<SessionRecord>[]>);
+  let resumable: SessionRecord | undefined;
+  for (const row of rows.reverse()) {
+    const session = await unwrap<SessionRecord>(row);
+    if (!resumable && isUnfinishedSession(session)) resumable = session;
+    else await deleteSession(session);
+  }
+  return resumable;
+};
+
+export const toSessionRecord = (
+  id: string,
+  createdAt: number,
+  files: ProcessingFile[],
+  numbers: ExtractedNumber[]
+): SessionRecord => ({
+  id,
+  createdAt,
+  updatedAt: Date.now(),
+  files: files.map(({ file, previewUrl, pages, ...rest }) => ({
+    ...rest,
+    name: file.name,
+    type: file.type,
+    lastModified: file.lastModified,
+    pages: pages?.map(({ image, previewUrl: _pagePreview, ...page }) => page),
+  })),
+  numbers,
+});
+
+// Work that was in flight when the tab died is queued again rather than left spinning
+const resumeStatus = <T extends { status: ProcessingFile['status'] }>(unit: T): T =>
+  unit.status === 'processing' ? { ...unit, status: 'pending', progress: 0 } : unit;
+
+export const restoreSession = async (session: SessionRecord): Promise<{ files: ProcessingFile[]; numbers: ExtractedNumber[] }> => {
+  const files: ProcessingFile[] = [];
+  for (const { name, type, lastModified, pages, ...stored } of session.files) {
+    const blob = await loadBlob(stored.id);
+    if (!blob) continue;
+    const file = new File([blob], name, { type, lastModified });
+
+    const restoredPages: ProcessingPage[] = [];
+    for (const page of pages || []) {
+      const image = await loadBlob(page.id);
+      if (image) restoredPages.push({ ...resumeStatus(page), image, previewUrl: URL.createObjectURL(image) });
+    }
+
+    files.push({
+      ...resumeStatus(stored),
+      file,
+      previewUrl: restoredPages[0]?.previewUrl || URL.createObjectURL(file),
+      pages: pages ? restoredPages : undefined,
+    });
+  }
+  return { files, numbers: session.numbers };
+};
+
+export const saveHistoryItem = async (item: DownloadHistory): Promise<void> => {
+  const row = await wrap(item, ['id', 'timestamp']);
+  await request((await store('history', 'readwrite')).put(row));
+};
+
+export const listHistory = async (): Promise<DownloadHistory[]> => {
+  const rows = await request((await store('history')).index('timestamp').getAll() as IDBRequest<StoredRow<DownloadHistory>[]>);
+  return (await Promise.all(rows.map(row => unwrap<DownloadHistory>(row)))).reverse();
+};
+
+/**
+ * Moves the capped localStorage archive into IndexedDB once. Entries keep
+ * their ids, so running this again after a partial failure cannot duplicate them.
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const legacy = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!legacy) return 0;
+
+  const items = JSON.parse(legacy) as DownloadHistory[];
+  // Archives saved before the format picker existed were always Google Contacts CSV
+  const rows = await Promise.all(items.map(item => wrap({ ...item, format: item.format || 'google-csv' }, ['id', 'timestamp'])));
+  const db = await openDatabase();
+  const tx = db.transaction('history', 'readwrite');
+  rows.forEach(row => tx.objectStore('history').put(row));
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return items.length;
+};
+
+// Matches file name, format and date, plus the archived contents of text formats
+export const searchHistory = (items: DownloadHistory[], query: string): DownloadHistory[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return items;
+  const digits = needle.replace(/\D/g, '');
+  return items.filter(item =>
+    item.filename.toLowerCase().includes(needle) ||
+    item.format.includes(needle) ||
+    new Date(item.timestamp).toISOString().slice(0, 10).includes(needle) ||
+    (item.format !== 'xlsx' && (item.data.toLowerCase().includes(needle) || (digits.length >= 4 && item.data.includes(digits))))
+  );
+};
+
+// OCR text is as sensitive as the archive, so cache rows are sealed like everything else
+export const ocrResultCache: OcrCache = {
+  get: async key => {
+    const row = await request((await store('ocrCache')).get(key) as IDBRequest<StoredRow<CachedOcrRecord> | undefined>);
+    return row && (await unwrap<CachedOcrRecord>(row)).result;
+  },
+  set: async (key, result) => {
+    const row = await wrap<CachedOcrRecord, 'key' | 'createdAt'>({ key, createdAt: Date.now(), result }, ['key', 'createdAt']);
+    await request((await store('ocrCache', 'readwrite')).put(row));
+  },
+};
+
+// Encrypted ledger rows are keyed by an HMAC of the number so lookups never store it in the clear
+const ledgerKey = (number: string): Promise<string> =>
+  isVaultEnabled() ? blindIndex(number) : Promise.resolve(number);
+
+const toLedgerRow = async (entry: LedgerEntry): Promise<StoredRow<LedgerEntry>> => {
+  const row = await wrap(entry, ['lastExportedAt']);
+  return isSealed(row) ? { ...row, number: await ledgerKey(entry.number) } : row;
+};
+
+export const loadLedger = async (): Promise<LedgerEntry[]> => {
+  const rows = await request((await store('ledger')).getAll() as IDBRequest<StoredRow<LedgerEntry>[]>);
+  return Promise.all(rows.map(row => unwrap<LedgerEntry>(row)));
+};
+
+const mergeLedger = async (exports: { number: string; filename: string; timestamp: number }[]): Promise<LedgerEntry[]> => {
+  const entries = new Map((await loadLedger()).map(entry => [entry.number, entry]));
+  const updated = new Map<string, LedgerEntry>();
+
+  for (const { number, filename, timestamp } of exports) {
+    const existing = entries.get(number);
+    if (existing?.exports.some(e => e.filename === filename && e.timestamp === timestamp)) continue;
+    const entry: LedgerEntry = existing
+      ? {
+          ...existing,
+          firstExportedAt: Math.min(existing.firstExportedAt, timestamp),
+          lastExportedAt: Math.max(existing.lastExportedAt, timestamp),
+          exports: [...existing.exports, { filename, timestamp }],
+        }
+      : { number, firstExportedAt: timestamp, lastExportedAt: timestamp, exports: [{ filename, timestamp }] };
+    entries.set(number, entry);
+    updated.set(number, entry);
+  }
+
+  const rows = await Promise.all([...updated.values()].map(toLedgerRow));
+  const db = await openDatabase();
+  const tx = db.transaction('ledger', 'readwrite');
+  rows.forEach(row => tx.objectStore('ledger').put(row));
+  await transactionDone(tx);
+  return [...updated.values()];
+};
+
+export const recordExport = (numbers: string[], filename: string, timestamp: number): Promise<LedgerEntry[]> =>
+  mergeLedger(numbers.map(number => ({ number, filename, timestamp })));
+
+const archiveText = (item: DownloadHistory): string =>
+  // XLSX archives are store-only zips, so their inline strings are readable once decoded
+  item.format === 'xlsx' ? atob(item.data) : item.data;
+
+/**
+ * Seeds the ledger from archives exported before it existed. Legacy archives
+ * hold "91XXXXXXXXXX" values, which the parser upgrades to E.164.
+ */
+export const backfillLedger = async (history: DownloadHistory[]): Promise<number> => {
+  const exports = history.flatMap(item =>
+    parsePhoneNumbers(archiveText(item)).map(parsed => ({
+      number: parsed.e164,
+      filename: item.filename,
+      timestamp: item.timestamp,
+    }))
+  );
+  return (await mergeLedger(exports)).length;
+};
+
+export const pruneLedger = async (numbers: string[]): Promise<void> => {
+  const keys = await Promise.all(numbers.map(ledgerKey));
+  const db = await openDatabase();
+  const tx = db.transaction('ledger', 'readwrite');
+  keys.forEach(key => tx.objectStore('ledger').delete(key));
+  await transactionDone(tx);
+};
+
+/**
+ * Re-writes every plaintext record in sealed form after the vault is created.
+ * Rows are read and encrypted first, then written back in one transaction per store.
+ */
+export const encryptStoredData = async (): Promise<number> => {
+  const db = await openDatabase();
+  let count = 0;
+
+  const rewrite = async <T extends object>(name: string, visible: (keyof T)[]) => {
+    const rows = await request(db.transaction(name).objectStore(name).getAll() as IDBRequest<StoredRow<T>[]>);
+    const plain = rows.filter((row): row is T => !isSealed(row));
+    const sealed = await Promise.all(plain.map(row => wrap(row, visible)));
+    const tx = db.transaction(name, 'readwrite');
+    sealed.forEach(row => tx.objectStore(name).put(row));
+    await transactionDone(tx);
+    count += plain.length;
+  };
+
+  await rewrite<SessionRecord>('sessions', ['id', 'createdAt', 'updatedAt']);
+  await rewrite<DownloadHistory>('history', ['id', 'timestamp']);
+  await rewrite<CachedOcrRecord>('ocrCache', ['key', 'createdAt']);
+
+  const ledger = (await request(db.transaction('ledger').objectStore('ledger').getAll() as IDBRequest<StoredRow<LedgerEntry>[]>))
+    .filter((row): row is LedgerEntry => !isSealed(row));
+  const ledgerRows = await Promise.all(ledger.map(toLedgerRow));
+  const ledgerTx = db.transaction('ledger', 'readwrite');
+  ledger.forEach(entry => ledgerTx.objectStore('ledger').delete(entry.number));
+  ledgerRows.forEach(row => ledgerTx.objectStore('ledger').put(row));
+  await transactionDone(ledgerTx);
+  count += ledger.length;
+
+  const blobStore = db.transaction('blobs').objectStore('blobs');
+  const [blobKeys, blobs] = await Promise.all([request(blobStore.getAllKeys()), request(blobStore.getAll())]);
+  const plainBlobs = blobKeys.map((key, i) => ({ key, blob: blobs[i] })).filter(({ blob }) => blob instanceof Blob);
+  const sealedBlobs = await Promise.all(plainBlobs.map(async ({ key, blob }) => ({ key, row: await wrapBlob(blob as Blob) })));
+  const blobTx = db.transaction('blobs', 'readwrite');
+  sealedBlobs.forEach(({ key, row }) => blobTx.objectStore('blobs').put(row, key));
+  await transactionDone(blobTx);
+  count += plainBlobs.length;
+
+  return count;
+};
+
+/**
+ * Deletes archives, sessions (with their blobs) and ledger entries older than
+ * the retention window. Only the clear index fields are read, except for
+ * sessions whose blob ids live inside the sealed record.
+ */
+export const purgeExpired = async (retentionDays: number, now = Date.now()): Promise<RetentionPurgeResult> => {
+  const expired = IDBKeyRange.upperBound(now - retentionDays * DAY_MS, true);
+  const db = await openDatabase();
+
+  const history = await request(db.transaction('history').objectStore('history').index('timestamp').getAllKeys(expired));
+  const ledger = await request(db.transaction('ledger').objectStore('ledger').index('lastExportedAt').getAllKeys(expired));
+  const cache = await request(db.transaction('ocrCache').objectStore('ocrCache').index('createdAt').getAllKeys(expired));
+  const tx = db.transaction(['history', 'ledger', 'ocrCache'], 'readwrite');
+  history.forEach(key => tx.objectStore('history').delete(key));
+  ledger.forEach(key => tx.objectStore('ledger').delete(key));
+  cache.forEach(key => tx.objectStore('ocrCache').delete(key));
+  await transactionDone(tx);
+
+  const sessionRows = await request(db.transaction('sessions').objectStore('sessions').index('updatedAt').getAll(expired) as IDBRequest<StoredRow<SessionRecord>[]>);
+  for (const row of sessionRows) {
+    await deleteSession(await unwrap<SessionRecord>(row));
+  }
+
+  return { archives: history.length, sessions: sessionRows.length, ledger: ledger.length, cache: cache.length };
+};
+
+// Clears the export archive, every stored session and the OCR cache; the ledger is managed separately
+export const wipeWorkspaceData = async (): Promise<void> => {
+  const db = await openDatabase();
+  const names = ['history', 'sessions', 'blobs', 'ocrCache'];
+  const tx = db.transaction(names, 'readwrite');
+  names.forEach(name => tx.objectStore(name).clear());
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes the whole database, the vault key material and every setting. With
+ * the vault enabled this also crypto-shreds anything the browser has not yet
+ * reclaimed from disk.
+ */
+export const purgeAllData = async (onBlocked?: () => void): Promise<void> => {
+  if (dbPromise) {
+    (await dbPromise).close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    // Another tab still holds a connection; the deletion completes once that tab lets go of it
+    req.onblocked = () => onBlocked?.();
+  });
+  destroyVault();
+  Object.keys(localStorage)
+    .filter(key => key.startsWith('omniextract_'))
+    .forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,46 @@
+// Implement fully offline OCR using the Tesseract.js WASM engine loaded by index.html
+import { OcrProvider } from '../types';
+
+interface TesseractWorker {
+  recognize: (image: string) => Promise<{ data: { text: string } }>;
+}
+
+interface TesseractGlobal {
+  createWorker: (lang: string) => Promise<TesseractWorker>;
+}
+
+const getTesseract = (): TesseractGlobal | undefined =>
+  (globalThis as { Tesseract?: TesseractGlobal }).Tesseract;
+
+// The worker downloads its language data once, so share it across every recognition call
+let workerPromise: Promise<TesseractWorker> | null = null;
+
+const getWorker = (): Promise<TesseractWorker> => {
+  const tesseract = getTesseract();
+  if (!tesseract) {
+    return Promise.reject(new Error('Tesseract engine is not loaded'));
+  }
+  if (!workerPromise) {
+    workerPromise = tesseract.createWorker('eng').catch(err => {
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+};
+
+export const performTesseractOCR = async (base64Image: string, mimeType = 'image/jpeg'): Promise<{ text: string }> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(`data:${mimeType};base64,${base64Image}`);
+  return { text: data.text || '' };
+};
+
+export const tesseractProvider: OcrProvider = {
+  id: 'tesseract',
+  label: 'Local WASM Engine',
+  description: 'Tesseract running in the browser. Images never leave this device.',
+  offline: true,
+  promptVersion: 'eng/v1',
+  isAvailable: () => Boolean(getTesseract()),
+  recognize: performTesseractOCR,
+};
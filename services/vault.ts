@@ -0,0 +1,122 @@
+// Implement passphrase-based AES-GCM encryption for data persisted in the browser
+const VAULT_CONFIG_KEY = 'omniextract_vault';
+const PBKDF2_ITERATIONS = 310000;
+const VAULT_CHECK = 'omniextract-vault-v1';
+
+export interface SealedPayload {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface VaultConfig {
+  salt: string;
+  iterations: number;
+  check: { iv: string; data: string };
+}
+
+interface VaultKeys {
+  cipher: CryptoKey;
+  // Blind index for values that must stay addressable, such as ledger numbers
+  lookup: CryptoKey;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The encrypted store is locked. Unlock it with the passphrase first.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+let keys: VaultKeys | null = null;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const readConfig = (): VaultConfig | null => {
+  const raw = localStorage.getItem(VAULT_CONFIG_KEY);
+  return raw ? (JSON.parse(raw) as VaultConfig) : null;
+};
+
+// One PBKDF2 run yields both keys so the passphrase is stretched only once per unlock
+const deriveKeys = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<VaultKeys> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 512)
+  );
+  const [cipher, lookup] = await Promise.all([
+    crypto.subtle.importKey('raw', bits.slice(0, 32), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+    crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+  ]);
+  return { cipher, lookup };
+};
+
+const encryptWith = async (key: CryptoKey, bytes: Uint8Array): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+const activeKeys = (): VaultKeys => {
+  if (!keys) throw new VaultLockedError();
+  return keys;
+};
+
+export const isVaultEnabled = (): boolean => readConfig() !== null;
+
+export const isVaultUnlocked = (): boolean => keys !== null;
+
+export const createVault = async (passphrase: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const derived = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+  const check = await encryptWith(derived.cipher, encoder.encode(VAULT_CHECK));
+  const config: VaultConfig = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: { iv: toBase64(check.iv), data: toBase64(new Uint8Array(check.data)) },
+  };
+  localStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify(config));
+  keys = derived;
+};
+
+// AES-GCM authenticates the check value, so a wrong passphrase fails decryption instead of yielding garbage
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const config = readConfig();
+  if (!config) return false;
+  const derived = await deriveKeys(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(config.check.iv) }, derived.cipher, fromBase64(config.check.data));
+  } catch {
+    return false;
+  }
+  keys = derived;
+  return true;
+};
+
+export const lockVault = (): void => {
+  keys = null;
+};
+
+// Dropping the salt and check makes every sealed record unrecoverable, even if its bytes linger on disk
+export const destroyVault = (): void => {
+  localStorage.removeItem(VAULT_CONFIG_KEY);
+  keys = null;
+};
+
+export const sealBytes = (bytes: Uint8Array): Promise<SealedPayload> =>
+  encryptWith(activeKeys().cipher, bytes);
+
+export const unsealBytes = async (payload: SealedPayload): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, activeKeys().cipher, payload.data);
+
+export const sealJSON = (value: unknown): Promise<SealedPayload> =>
+  sealBytes(encoder.encode(JSON.stringify(value)));
+
+export const unsealJSON = async <T,>(payload: SealedPayload): Promise<T> =>
+  JSON.parse(decoder.decode(await unsealBytes(payload))) as T;
+
+export const blindIndex = async (value: string): Promise<string> => {
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', activeKeys().lookup, encoder.encode(value)));
+  return Array.from(mac, b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -1,12 +1,145 @@
 // Define shared interfaces for the application to resolve module import errors
+export type ProcessingErrorReason =
+  | 'rate_limited'
+  | 'server_error'
+  | 'network'
+  | 'auth'
+  | 'invalid_input'
+  | 'engine_unavailable'
+  | 'cancelled'
+  | 'unknown';
+
+export interface ProcessingError {
+  reason: ProcessingErrorReason;
+  message: string;
+  // Transient failures (429, 5xx, network) are retried with backoff
+  retryable: boolean;
+  attempts: number;
+}
+
+export type ProcessingStatus = 'pending' | 'processing' | 'paused' | 'completed' | 'error' | 'cancelled';
+
+// One rendered page of a PDF or multi-page TIFF, processed as its own queue unit
+export interface ProcessingPage {
+  id: string;
+  pageNumber: number;
+  image: Blob;
+  previewUrl: string;
+  status: ProcessingStatus;
+  progress: number;
+  rawText?: string;
+  error?: ProcessingError;
+  usage?: UsageStats;
+}
+
 export interface ProcessingFile {
   id: string;
   file: File;
   previewUrl: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  // For documents these are aggregated from the pages below
+  status: ProcessingStatus;
   progress: number;
   rawText?: string;
-  error?: string;
+  error?: ProcessingError;
+  // Tokens and estimated cost of the OCR calls made for this file; summed over pages for documents
+  usage?: UsageStats;
+  pages?: ProcessingPage[];
+  // SHA-256 of the uploaded bytes and, when near-duplicate detection is on, a 64-bit dHash
+  contentHash?: string;
+  perceptualHash?: string;
+  duplicateOf?: DuplicateMatch;
+}
+
+export interface DuplicateMatch {
+  fileId: string;
+  fileName: string;
+  kind: 'exact' | 'near';
+  // Differing dHash bits; 0 for exact copies
+  distance: number;
+}
+
+export interface PreprocessOptions {
+  // Longest edge in pixels; tall screenshots are only constrained by width and tiled instead
+  maxDimension: number;
+  grayscale: boolean;
+  // 1 leaves contrast untouched
+  contrast: number;
+  // Binarisation cut-off 0-255, or null to skip thresholding
+  threshold: number | null;
+  tileTallImages: boolean;
+  // Compares uploads by perceptual hash to flag re-captures of the same screen
+  flagNearDuplicates: boolean;
+}
+
+// One OCR-ready slice of a prepared image
+export interface ImageTile {
+  base64: string;
+  mimeType: string;
+  // Vertical position of the tile within the prepared image, in pixels
+  offsetY: number;
+  height: number;
+}
+
+export interface PreparedImage {
+  width: number;
+  height: number;
+  sourceMimeType: string;
+  tiles: ImageTile[];
+}
+
+export interface QueueSettings {
+  concurrency: number;
+  // Token-bucket refill rate shared by every worker
+  requestsPerMinute: number;
+  maxRetries: number;
+}
+
+// Normalised 0-1000 coordinates relative to the source image
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Which extraction path produced a number: the JSON schema, the regex scan, both agreeing, or an imported address book
+export type ExtractionMatch = 'structured' | 'regex' | 'both' | 'imported';
+
+export type ExtractionMode = 'text' | 'structured';
+
+// Only approved rows are exported; excluded rows stay visible for audit but never leave the app
+export type ReviewStatus = 'pending' | 'approved' | 'excluded';
+
+export type ReviewFlag = 'low_confidence' | 'model_only' | 'toll_free' | 'edited';
+
+export type RegionCode = 'IN' | 'AE' | 'GB' | 'US';
+
+// 'fixed_or_mobile' covers numbering plans such as NANP that do not separate the two ranges
+export type PhoneNumberType = 'mobile' | 'landline' | 'toll_free' | 'fixed_or_mobile';
+
+export interface PhoneParseOptions {
+  defaultRegion: RegionCode;
+  allowedRegions: RegionCode[];
+}
+
+export interface ParsedPhoneNumber {
+  raw: string;
+  e164: string;
+  region: RegionCode;
+  type: PhoneNumberType;
+  nationalNumber: string;
+}
+
+// Entity kinds the extractor registry reads from OCR text; the phone number stays the key of each contact.
+// Notes have no extractor and only come from imported address books.
+export type EntityType = 'phone' | 'email' | 'upi' | 'organization' | 'note';
+
+export interface ExtractedEntity {
+  type: EntityType;
+  // Canonical form produced by the type's normaliser, e.g. a lowercased email
+  value: string;
+  // The text exactly as written in the image
+  original: string;
 }
 
 export interface ExtractedNumber {
@@ -14,12 +147,172 @@ export interface ExtractedNumber {
   original: string;
   formatted: string;
   sourceImage: string;
+  // ProcessingFile the number was read from, used to open the source preview
+  sourceFileId?: string;
+  // 1-based page within a multi-page source document
+  sourcePage?: number;
+  reviewStatus: ReviewStatus;
+  edited?: boolean;
+  // Most recent archive this number already went out in, per the export ledger
+  exportedBefore?: LedgerExport;
+  region?: RegionCode;
+  phoneType?: PhoneNumberType;
+  name?: string;
+  // Emails, UPI IDs, organisations and notes linked to this contact
+  entities?: ExtractedEntity[];
+  confidence?: number;
+  boundingBox?: BoundingBox;
+  matchedBy: ExtractionMatch;
+}
+
+export type ExportColumn = 'name' | 'phone' | 'phoneType' | 'email' | 'organization' | 'labels' | 'notes';
+
+// Saved, reusable column mapping and naming scheme applied to every export format
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  columns: ExportColumn[];
+  // Supports {name}, {org}, {source}, {index}, {date}, {region} and {type} tokens
+  nameTemplate: string;
+  // Comma-separated Google Contacts labels; supports the same tokens as nameTemplate
+  labels: string;
 }
 
+export type ExportFormatId = 'google-csv' | 'outlook-csv' | 'vcard-3' | 'vcard-4' | 'json' | 'xlsx';
+
+export interface LedgerExport {
+  filename: string;
+  timestamp: number;
+}
+
+// Every number that has ever left the app in an archive, keyed by its E.164 form
+export interface LedgerEntry {
+  number: string;
+  firstExportedAt: number;
+  lastExportedAt: number;
+  exports: LedgerExport[];
+}
+
+export type ExportScope = 'all' | 'new-only' | 'merged';
+
+// A contact read from an existing Google/Outlook CSV or vCard file, phones already in E.164
+export interface ImportedContact {
+  name?: string;
+  phones: string[];
+  // Emails, organisation and notes from the same row or card
+  entities?: ExtractedEntity[];
+  source: string;
+}
+
+export interface ContactImportResult {
+  source: string;
+  contacts: ImportedContact[];
+  // Rows or cards that carried no phone number the numbering plans accept
+  skipped: number;
+}
+
+// 'conflict' means the address book holds the number under a different name
+export type ContactMatchStatus = 'new' | 'known' | 'conflict';
+
+export interface ContactMatch {
+  status: ContactMatchStatus;
+  contact?: ImportedContact;
+}
+
+export type LogLevel = 'info' | 'success' | 'error' | 'system';
+
+// Pipeline stages timed per unit: reading and preparing the image, the OCR call, and number parsing
+export type PipelineStage = 'read' | 'ocr' | 'parse';
+
+export type StageDurations = Partial<Record<PipelineStage, number>>;
+
+// Correlation fields shared by every event raised while a file or batch is in flight
+export interface LogContext {
+  batchId?: string;
+  fileId?: string;
+  // Page or tile unit within the file, when it differs from fileId
+  unitId?: string;
+  fileName?: string;
+  durations?: StageDurations;
+}
+
+export interface LogEvent extends LogContext {
+  id: string;
+  // Epoch milliseconds when the event was raised, not when it was rendered
+  timestamp: number;
+  level: LogLevel;
+  message: string;
+}
+
+// 'off' stores plaintext; 'locked' means sealed data exists but the passphrase has not been entered
+export type VaultState = 'off' | 'locked' | 'unlocked';
+
+// Token counts one provider call reported, or the sum over several calls
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageStats extends TokenUsage {
+  calls: number;
+  // Estimated from the price table at the time of the call
+  costUsd: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Keyed by model id as the provider reports it
+export type PriceTable = Record<string, ModelPrice>;
+
 export interface DownloadHistory {
   id: string;
   filename: string;
   timestamp: number;
   count: number;
+  format: ExportFormatId;
+  // OCR spend of the source files behind the exported numbers
+  usage?: UsageStats;
+  // Text formats are stored verbatim, binary formats as base64
   data: string;
 }
+
+export interface OcrRecord {
+  // Associated contact name or label as it appears next to the number
+  name?: string;
+  // The number exactly as written in the image
+  number: string;
+  // Written alongside the number on the same contact; checked by the extractor registry before use
+  email?: string;
+  upiId?: string;
+  organization?: string;
+  confidence: number;
+  boundingBox?: BoundingBox;
+}
+
+export interface OcrResult {
+  text: string;
+  records?: OcrRecord[];
+  // Reported by metered providers only; `model` selects the row of the price table
+  usage?: TokenUsage;
+  model?: string;
+}
+
+// Contract every OCR engine registered in services/ocrRegistry.ts must satisfy
+export interface OcrProvider {
+  id: string;
+  label: string;
+  description: string;
+  // True when images never leave the device
+  offline: boolean;
+  // Part of the OCR cache key; bump whenever the prompt, schema or model changes
+  promptVersion: string;
+  isAvailable: () => boolean;
+  recognize: (base64Image: string, mimeType?: string) => Promise<OcrResult>;
+  // Optional structured mode returning one record per number alongside the raw text
+  extractStructured?: (base64Image: string, mimeType?: string) => Promise<OcrResult>;
+}
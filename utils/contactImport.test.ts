@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedNumber, ImportedContact } from '../types';
+import { indexContacts, matchContact, mergeWithContacts, parseCSV, parseContactCSV, parseVCardFile } from './contactImport';
+import { entityValues } from './extractors';
+
+const num = (formatted: string, name?: string, overrides: Partial<ExtractedNumber> = {}): ExtractedNumber => ({
+  id: formatted,
+  original: formatted,
+  formatted,
+  sourceImage: 'card.png',
+  reviewStatus: 'approved',
+  name,
+  matchedBy: 'regex',
+  ...overrides,
+});
+
+const contact = (name: string | undefined, phones: string[], overrides: Partial<ImportedContact> = {}): ImportedContact => ({
+  name,
+  phones,
+  source: 'book.vcf',
+  ...overrides,
+});
+
+describe('parseCSV', () => {
+  it.each<[string, string[][]]>([
+    ['a,b\nc,d', [['a', 'b'], ['c', 'd']]],
+    ['a,b\r\nc,d\r\n', [['a', 'b'], ['c', 'd']]],
+    ['"x, y","say ""hi"""', [['x, y', 'say "hi"']]],
+    ['"line\nbreak",z', [['line\nbreak', 'z']]],
+    ['a,b\n,\n\nc,', [['a', 'b'], ['c', '']]],
+  ])('reads %j', (text, rows) => {
+    expect(parseCSV(text)).toEqual(rows);
+  });
+});
+
+describe('parseContactCSV', () => {
+  it('reads a Google Contacts export', () => {
+    const csv = [
+      'Name,Given Name,Family Name,E-mail 1 - Type,E-mail 1 - Value,Organization 1 - Name,Notes,Phone 1 - Type,Phone 1 - Value,Phone 2 - Value',
+      'Ravi Kumar,Ravi,Kumar,Work,Ravi@Kumar.in ::: r.kumar@example.com,Kumar Logistics,Met at the expo,Mobile,+91 98765 43210 ::: 080 2345 6789,98765 43210',
+      ',Priya,Shah,,,,,,,9123456780',
+      'No Number,,,,,,,,,n/a',
+    ].join('\n');
+    const result = parseContactCSV(csv, 'google.csv');
+
+    expect(result.skipped).toBe(1);
+    expect(result.contacts.map(c => [c.name, c.phones])).toEqual([
+      ['Ravi Kumar', ['+919876543210', '+918023456789']],
+      ['Priya Shah', ['+919123456780']],
+    ]);
+    expect(result.contacts[0].entities).toEqual([
+      { type: 'email', value: 'ravi@kumar.in', original: 'Ravi@Kumar.in' },
+      { type: 'email', value: 'r.kumar@example.com', original: 'r.kumar@example.com' },
+      { type: 'organization', value: 'Kumar Logistics', original: 'Kumar Logistics' },
+      { type: 'note', value: 'Met at the expo', original: 'Met at the expo' },
+    ]);
+    expect(result.contacts[1].entities).toBeUndefined();
+  });
+
+  it('reads an Outlook export', () => {
+    const csv = [
+      '\uFEFFFirst Name,Middle Name,Last Name,Company,E-mail Address,E-mail Display Name,Mobile Phone,Business Phone,Business Fax',
+      'Sara,J,Ali,Acme FZE,sara@acme.ae,Sara (sara@acme.ae),050 123 4567,04 123 4567,',
+    ].join('\n');
+    const [sara] = parseContactCSV(csv, 'outlook.csv', { defaultRegion: 'AE', allowedRegions: ['AE'] }).contacts;
+
+    expect(sara.name).toBe('Sara J Ali');
+    expect(sara.phones).toEqual(['+971501234567', '+97141234567']);
+    expect(sara.entities?.map(e => [e.type, e.value])).toEqual([['email', 'sara@acme.ae'], ['organization', 'Acme FZE']]);
+  });
+});
+
+describe('parseVCardFile', () => {
+  it('reads names, phones, emails, organisation and notes', () => {
+    const vcf = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'N:Kumar;Ravi;;;',
+      'item1.TEL;TYPE=CELL:+91 98765',
+      '  43210',
+      'TEL;TYPE=WORK:080-2345-6789',
+      'EMAIL;TYPE=INTERNET:ravi@kumarlogistics.in',
+      'ORG:Kumar Logistics;Dispatch',
+      'NOTE:Source: 3.vcf\\nPrefers WhatsApp\\, evenings',
+      'END:VCARD',
+      'BEGIN:VCARD',
+      'FN:No Number',
+      'TEL:12345',
+      'END:VCARD',
+    ].join('\r\n');
+    const result = parseVCardFile(vcf, 'book.vcf');
+
+    expect(result.skipped).toBe(1);
+    expect(result.contacts).toEqual([
+      {
+        name: 'Ravi Kumar',
+        phones: ['+919876543210', '+918023456789'],
+        entities: [
+          { type: 'email', value: 'ravi@kumarlogistics.in', original: 'ravi@kumarlogistics.in' },
+          { type: 'organization', value: 'Kumar Logistics, Dispatch', original: 'Kumar Logistics, Dispatch' },
+          { type: 'note', value: 'Prefers WhatsApp, evenings', original: 'Prefers WhatsApp, evenings' },
+        ],
+        source: 'book.vcf',
+      },
+    ]);
+  });
+});
+
+describe('matchContact', () => {
+  const index = indexContacts([contact('Ravi Kumar', ['+919876543210']), contact(undefined, ['+918023456789'])]);
+
+  it.each<[string, ExtractedNumber, string]>([
+    ['a number the book lacks', num('+919123456780', 'Priya'), 'new'],
+    ['the same name', num('+919876543210', 'ravi  kumar'), 'known'],
+    ['an unnamed extraction', num('+919876543210'), 'known'],
+    ['an unnamed contact', num('+918023456789', 'Office'), 'known'],
+    ['a different name', num('+919876543210', 'Amit'), 'conflict'],
+  ])('tags %s as %s', (_label, number, status) => {
+    expect(matchContact(number, index).status).toBe(status);
+  });
+});
+
+describe('mergeWithContacts', () => {
+  const contacts = [
+    contact('Ravi Kumar', ['+919876543210', '+918023456789'], {
+      entities: [{ type: 'email', value: 'ravi@kumar.in', original: 'ravi@kumar.in' }],
+    }),
+    contact('Ravi (duplicate)', ['+919876543210']),
+    contact('Sara', ['+971501234567', '+919876543210']),
+  ];
+
+  it('writes one row per contact followed by the new extracted numbers', () => {
+    const merged = mergeWithContacts([num('+919876543210', 'Ravi Kumar'), num('+919123456780', 'Priya')], contacts);
+    expect(merged.map(n => [n.name, n.formatted, n.matchedBy])).toEqual([
+      ['Ravi Kumar', '+919876543210', 'imported'],
+      ['Sara', '+971501234567', 'imported'],
+      ['Priya', '+919123456780', 'regex'],
+    ]);
+  });
+
+  it('keeps extra phones and imported fields as entities', () => {
+    const [ravi, sara] = mergeWithContacts([], contacts);
+    expect(entityValues(ravi, 'phone')).toEqual(['+918023456789']);
+    expect(entityValues(ravi, 'email')).toEqual(['ravi@kumar.in']);
+    // The shared number stays with the first contact that lists it
+    expect(sara.entities).toBeUndefined();
+  });
+
+  it('keeps the imported name on a conflict and notes the extracted one', () => {
+    const [ravi] = mergeWithContacts([num('+918023456789', 'Front Desk', { sourcePage: 2 })], contacts);
+    expect(ravi.name).toBe('Ravi Kumar');
+    expect(entityValues(ravi, 'note')).toEqual(['Also read as Front Desk in card.png (page 2)']);
+  });
+
+  it('does not duplicate contacts when a merged export is imported again', () => {
+    const once = mergeWithContacts([num('+919123456780', 'Priya')], contacts);
+    const reimported = once.map(n => contact(n.name, [n.formatted, ...entityValues(n, 'phone')]));
+    expect(mergeWithContacts([num('+919123456780', 'Priya')], reimported).map(n => n.formatted)).toEqual(once.map(n => n.formatted));
+  });
+});
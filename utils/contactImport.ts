@@ -0,0 +1,236 @@
+// Implement Google/Outlook CSV and vCard import for deduplicating against existing address books
+import { ContactImportResult, ContactMatch, ExtractedEntity, ExtractedNumber, ImportedContact, PhoneParseOptions } from '../types';
+import { getExtractor, mergeEntities } from './extractors';
+import { DEFAULT_PHONE_OPTIONS, extractAndFormatNumbers, parsePhoneNumber } from './phoneNumbers';
+import { describeSource } from './templates';
+
+// RFC 4180 reader: quoted fields may hold commas, doubled quotes and line breaks
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+// Covers Google ("Phone 1 - Value") and Outlook ("Mobile Phone", "Business Phone 2", ...) layouts
+const isPhoneHeader = (header: string): boolean =>
+  /phone|mobile|\btel\b|pager|fax/i.test(header) && !/type|label/i.test(header);
+
+// Google "E-mail 1 - Value", Outlook "E-mail Address" and "E-mail 2 Address"
+const isEmailHeader = (header: string): boolean =>
+  /e-?mail/i.test(header) && !/type|label|display/i.test(header);
+
+const NAME_PART_HEADERS = [
+  ['First Name', 'Given Name'],
+  ['Middle Name', 'Additional Name'],
+  ['Last Name', 'Family Name'],
+];
+
+const joinName = (parts: (string | undefined)[]): string | undefined =>
+  parts.map(p => p?.trim()).filter(Boolean).join(' ') || undefined;
+
+// Emails go through the same normaliser as extracted ones so both sides of a merge compare equal
+const contactEntities = (
+  emails: string[],
+  organization: string | undefined,
+  note: string | undefined,
+  options: PhoneParseOptions
+): ExtractedEntity[] | undefined => {
+  const email = getExtractor('email');
+  // Exports from this app open the note with a source line, which would stack up on every re-import
+  const text = note?.replace(/^Source: .*(?:\n|$)/, '').trim();
+  const entities = mergeEntities(
+    emails
+      .flatMap(cell => cell.split(':::'))
+      .map(raw => raw.trim())
+      .filter(Boolean)
+      .map(raw => ({ type: 'email' as const, value: email.normalize(raw, options), original: raw }))
+      .filter(entity => email.validate(entity.value, options)),
+    organization?.trim() ? [{ type: 'organization', value: organization.trim(), original: organization }] : [],
+    text ? [{ type: 'note', value: text, original: text }] : []
+  );
+  return entities.length > 0 ? entities : undefined;
+};
+
+export const parseContactCSV = (text: string, source: string, options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS): ContactImportResult => {
+  const [headers = [], ...rows] = parseCSV(text.replace(/^\uFEFF/, ''));
+  const column = (names: string[]) => headers.findIndex(h => names.includes(h.trim()));
+  const fullNameColumn = column(['Name', 'Display Name', 'Full Name']);
+  const partColumns = NAME_PART_HEADERS.map(column);
+  const phoneColumns = headers.map((h, i) => (isPhoneHeader(h) ? i : -1)).filter(i => i >= 0);
+  const emailColumns = headers.map((h, i) => (isEmailHeader(h) ? i : -1)).filter(i => i >= 0);
+  const organizationColumn = column(['Organization 1 - Name', 'Organization Name', 'Company']);
+  const notesColumn = column(['Notes']);
+
+  const contacts: ImportedContact[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    // Google packs several numbers into one cell separated by " ::: ", which the scanner already splits
+    const phones = [...new Set(phoneColumns.flatMap(i => extractAndFormatNumbers(row[i] || '', options)))];
+    if (phones.length === 0) {
+      skipped++;
+      continue;
+    }
+    const name = (fullNameColumn >= 0 ? row[fullNameColumn]?.trim() : '') || joinName(partColumns.map(i => (i >= 0 ? row[i] : undefined)));
+    const entities = contactEntities(
+      emailColumns.map(i => row[i] || ''),
+      organizationColumn >= 0 ? row[organizationColumn] : undefined,
+      notesColumn >= 0 ? row[notesColumn] : undefined,
+      options
+    );
+    contacts.push({ name: name || undefined, phones, entities, source });
+  }
+  return { source, contacts, skipped };
+};
+
+const unescapeVCard = (value: string): string =>
+  value.replace(/\\([,;\\nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+export const parseVCardFile = (text: string, source: string, options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS): ContactImportResult => {
+  // Undo 75-octet line folding before reading properties
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const contacts: ImportedContact[] = [];
+  let skipped = 0;
+  let card: { fn?: string; n?: string; org?: string; note?: string; tels: string[]; emails: string[] } | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    // Strip "item1." style groups and parameters such as ";TYPE=CELL"
+    const property = line.slice(0, colon).split(';')[0].replace(/^.*\./, '').toUpperCase();
+    const value = line.slice(colon + 1);
+
+    if (property === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      card = { tels: [], emails: [] };
+    } else if (property === 'END' && card) {
+      const phones = [...new Set(card.tels.flatMap(tel => extractAndFormatNumbers(tel, options)))];
+      if (phones.length === 0) {
+        skipped++;
+      } else {
+        const [family, given, middle] = (card.n || '').split(';').map(unescapeVCard);
+        const entities = contactEntities(card.emails, card.org, card.note, options);
+        contacts.push({ name: card.fn?.trim() || joinName([given, middle, family]), phones, entities, source });
+      }
+      card = null;
+    } else if (card && property === 'FN') {
+      card.fn = unescapeVCard(value);
+    } else if (card && property === 'N') {
+      card.n = value;
+    } else if (card && property === 'TEL') {
+      card.tels.push(value);
+    } else if (card && property === 'EMAIL') {
+      card.emails.push(unescapeVCard(value));
+    } else if (card && property === 'ORG') {
+      // Company first, then organisational units
+      card.org = value.split(';').map(unescapeVCard).filter(Boolean).join(', ');
+    } else if (card && property === 'NOTE') {
+      card.note = unescapeVCard(value);
+    }
+  }
+  return { source, contacts, skipped };
+};
+
+export const importContactFile = async (file: File, options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS): Promise<ContactImportResult> => {
+  const text = await file.text();
+  const isVCard = /\.vcf$/i.test(file.name) || /^\s*BEGIN:VCARD/i.test(text);
+  return isVCard ? parseVCardFile(text, file.name, options) : parseContactCSV(text, file.name, options);
+};
+
+export const indexContacts = (contacts: ImportedContact[]): Map<string, ImportedContact[]> => {
+  const index = new Map<string, ImportedContact[]>();
+  contacts.forEach(contact => contact.phones.forEach(phone => index.set(phone, [...(index.get(phone) || []), contact])));
+  return index;
+};
+
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * A number is known when the address book holds it under the same name, or
+ * when either side has no name to compare. Different names are a conflict.
+ */
+export const matchContact = (num: ExtractedNumber, index: Map<string, ImportedContact[]>): ContactMatch => {
+  const candidates = index.get(num.formatted);
+  if (!candidates) return { status: 'new' };
+  const name = num.name && normalizeName(num.name);
+  const same = candidates.find(c => !name || !c.name || normalizeName(c.name) === name);
+  return same ? { status: 'known', contact: same } : { status: 'conflict', contact: candidates[0] };
+};
+
+/**
+ * Builds the merged address book: every imported contact as one row, its first
+ * number as the phone and the rest as phone entities, followed by the extracted
+ * numbers the address book does not hold yet. A contact keeps its imported
+ * name, emails, organisation and notes; an extracted name that conflicts with
+ * it is added as a note rather than dropped.
+ */
+export const mergeWithContacts = (
+  numbers: ExtractedNumber[],
+  contacts: ImportedContact[],
+  options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS
+): ExtractedNumber[] => {
+  const index = indexContacts(contacts);
+  const rowOf = new Map<string, ExtractedNumber>();
+  const imported: ExtractedNumber[] = [];
+  contacts.forEach((contact, c) => {
+    // A number listed under two contacts stays with the first one so re-imports do not duplicate it
+    const [phone, ...others] = contact.phones.filter(p => !rowOf.has(p));
+    if (!phone) return;
+    const parsed = parsePhoneNumber(phone, options);
+    const entities = mergeEntities(others.map(other => ({ type: 'phone' as const, value: other, original: other })), contact.entities);
+    const row: ExtractedNumber = {
+      id: `import-${c}`,
+      original: phone,
+      formatted: phone,
+      sourceImage: contact.source,
+      reviewStatus: 'approved',
+      region: parsed?.region,
+      phoneType: parsed?.type,
+      name: contact.name,
+      entities: entities.length > 0 ? entities : undefined,
+      matchedBy: 'imported',
+    };
+    contact.phones.forEach(p => rowOf.has(p) || rowOf.set(p, row));
+    imported.push(row);
+  });
+
+  numbers.forEach(num => {
+    const row = rowOf.get(num.formatted);
+    if (!row || !num.name || matchContact(num, index).status !== 'conflict') return;
+    const note = `Also read as ${num.name} in ${describeSource(num.sourceImage, num.sourcePage)}`;
+    row.entities = mergeEntities(row.entities, [{ type: 'note', value: note, original: note }]);
+  });
+  return [...imported, ...numbers.filter(num => !index.has(num.formatted))];
+};
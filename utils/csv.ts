@@ -1,16 +1,103 @@
-// Implement CSV generation optimized for Google Contacts import
-export const generateCSV = (data: string[]): string => {
+// Implement RFC 4180 CSV generation for Google Contacts and Outlook imports
+import { ExportTemplate, ExtractedNumber, PhoneNumberType } from '../types';
+import { ContactPhone, DEFAULT_TEMPLATE, contactPhones, hasColumn, phoneTypeLabel, primaryEntity, renderLabels, renderName, renderNotes } from './templates';
+
+// RFC 4180: fields containing quotes, commas or line breaks are quoted and inner quotes doubled
+export const escapeCSVField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCSV = (headers: string[], rows: string[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCSVField).join(',')).join('\r\n');
+
+export const generateCSV = (data: ExtractedNumber[], template: ExportTemplate = DEFAULT_TEMPLATE): string => {
   if (data.length === 0) return '';
-  // Google Contacts compatible headers: Name, Phone 1 - Value
-  const headers = 'Name,Phone 1 - Value';
-  // Use sequential indexing for names to keep the stealth mode consistent
-  const rows = data.map((num, idx) => `Contact ${idx + 1},${num}`);
-  
-  return `${headers}\n${rows.join('\n')}`;
+  const date = new Date();
+  // Google Contacts compatible headers: Name, Phone 1 - Value, plus whichever optional columns the template selects
+  const phones = data.map(contactPhones);
+  const phoneSlots = Math.max(...phones.map(list => list.length));
+  const headers = ['Name'];
+  for (let slot = 1; slot <= phoneSlots; slot++) {
+    if (hasColumn(template, 'phoneType')) headers.push(`Phone ${slot} - Type`);
+    headers.push(`Phone ${slot} - Value`);
+  }
+  if (hasColumn(template, 'email')) headers.push('E-mail 1 - Value');
+  if (hasColumn(template, 'organization')) headers.push('Organization 1 - Name');
+  if (hasColumn(template, 'labels')) headers.push('Labels');
+  if (hasColumn(template, 'notes')) headers.push('Notes');
+
+  const rows = data.map((num, index) => {
+    const ctx = { index, date };
+    const row = [renderName(template, num, ctx)];
+    for (let slot = 0; slot < phoneSlots; slot++) {
+      const phone = phones[index][slot];
+      if (hasColumn(template, 'phoneType')) row.push(phone ? phoneTypeLabel(phone) : '');
+      row.push(phone?.formatted || '');
+    }
+    if (hasColumn(template, 'email')) row.push(primaryEntity(num, 'email'));
+    if (hasColumn(template, 'organization')) row.push(primaryEntity(num, 'organization'));
+    // Google joins multiple labels with " ::: "; every import also lands in My Contacts
+    if (hasColumn(template, 'labels')) row.push([...renderLabels(template, num, ctx), '* myContacts'].join(' ::: '));
+    if (hasColumn(template, 'notes')) row.push(renderNotes(num));
+    return row;
+  });
+
+  return toCSV(headers, rows);
+};
+
+// Outlook files each number under a typed phone column instead of a generic value
+const OUTLOOK_PHONE_COLUMNS: Record<PhoneNumberType, string> = {
+  mobile: 'Mobile Phone',
+  fixed_or_mobile: 'Mobile Phone',
+  landline: 'Business Phone',
+  toll_free: 'Other Phone',
 };
 
-export const downloadCSV = (content: string, filename: string): void => {
-  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+// Further numbers of a contact whose typed column is already taken, in the order Outlook offers them
+const OUTLOOK_OVERFLOW_COLUMNS = ['Other Phone', 'Business Phone 2', 'Home Phone', 'Home Phone 2'];
+
+const placeOutlookPhones = (phones: ContactPhone[], typed: boolean): Map<string, string> => {
+  const placed = new Map<string, string>();
+  for (const phone of phones) {
+    const preferred = typed ? OUTLOOK_PHONE_COLUMNS[phone.phoneType || 'mobile'] : 'Mobile Phone';
+    const column = [preferred, ...OUTLOOK_OVERFLOW_COLUMNS].find(c => !placed.has(c));
+    if (column) placed.set(column, phone.formatted);
+  }
+  return placed;
+};
+
+export const generateOutlookCSV = (data: ExtractedNumber[], template: ExportTemplate = DEFAULT_TEMPLATE): string => {
+  if (data.length === 0) return '';
+  const date = new Date();
+  const placements = data.map(num => placeOutlookPhones(contactPhones(num), hasColumn(template, 'phoneType')));
+  const baseColumns = hasColumn(template, 'phoneType')
+    ? ['Mobile Phone', 'Business Phone', 'Other Phone']
+    : ['Mobile Phone'];
+  const phoneColumns = [
+    ...baseColumns,
+    ...OUTLOOK_OVERFLOW_COLUMNS.filter(c => !baseColumns.includes(c) && placements.some(placed => placed.has(c))),
+  ];
+  const headers = ['First Name', ...phoneColumns];
+  if (hasColumn(template, 'email')) headers.push('E-mail Address');
+  if (hasColumn(template, 'organization')) headers.push('Company');
+  if (hasColumn(template, 'labels')) headers.push('Categories');
+  if (hasColumn(template, 'notes')) headers.push('Notes');
+
+  const rows = data.map((num, index) => {
+    const ctx = { index, date };
+    // Templated names are not reliably "given family", so the whole name goes in First Name
+    const row = [renderName(template, num, ctx)];
+    row.push(...phoneColumns.map(column => placements[index].get(column) || ''));
+    if (hasColumn(template, 'email')) row.push(primaryEntity(num, 'email'));
+    if (hasColumn(template, 'organization')) row.push(primaryEntity(num, 'organization'));
+    if (hasColumn(template, 'labels')) row.push(renderLabels(template, num, ctx).join(';'));
+    if (hasColumn(template, 'notes')) row.push(renderNotes(num));
+    return row;
+  });
+  return toCSV(headers, rows);
+};
+
+export const downloadFile = (content: string | Uint8Array, filename: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   
@@ -23,4 +110,7 @@ export const downloadCSV = (content: string, filename: string): void => {
   document.body.removeChild(link);
   
   URL.revokeObjectURL(url);
-};
\ No newline at end of file
+};
+
+export const downloadCSV = (content: string, filename: string): void =>
+  downloadFile(content, filename, 'text/csv;charset=utf-8;');
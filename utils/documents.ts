@@ -0,0 +1,139 @@
+// Implement local page-by-page rendering of PDFs and multi-page TIFFs into OCR-ready images
+import { getDocument, GlobalWorkerOptions, version as pdfjsVersion } from 'pdfjs-dist';
+import * as UTIF from 'utif';
+import { ProcessingError, ProcessingFile, ProcessingPage, ProcessingStatus, UsageStats } from '../types';
+import { sumUsage } from './usage';
+
+// Only the worker script comes from the CDN (like Tesseract in index.html); documents never leave the device
+GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsVersion}/build/pdf.worker.min.mjs`;
+
+// ~150 DPI for a standard PDF page: sharp enough for OCR without bloating the upload
+const PDF_RENDER_SCALE = 2;
+
+export const isPdf = (file: File): boolean =>
+  file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const isTiff = (file: File): boolean =>
+  file.type === 'image/tiff' || /\.tiff?$/i.test(file.name);
+
+export const isMultiPageDocument = (file: File): boolean => isPdf(file) || isTiff(file);
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode page'))), 'image/jpeg', 0.92);
+  });
+
+const renderPdfPages = async (file: File): Promise<Blob[]> => {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: Blob[] = [];
+  try {
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      pages.push(await canvasToBlob(canvas));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+const renderTiffPages = async (file: File): Promise<Blob[]> => {
+  const buffer = await file.arrayBuffer();
+  // Sub-IFDs such as thumbnails carry no width; only real pages are rendered
+  const ifds = UTIF.decode(buffer).filter(ifd => ifd.t256 !== undefined);
+  const pages: Blob[] = [];
+  for (const ifd of ifds) {
+    UTIF.decodeImage(buffer, ifd);
+    const rgba = UTIF.toRGBA8(ifd);
+    const canvas = document.createElement('canvas');
+    canvas.width = ifd.width;
+    canvas.height = ifd.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(rgba), ifd.width, ifd.height), 0, 0);
+    pages.push(await canvasToBlob(canvas));
+  }
+  return pages;
+};
+
+export const renderDocumentPages = async (file: File): Promise<ProcessingPage[]> => {
+  const images = isPdf(file) ? await renderPdfPages(file) : await renderTiffPages(file);
+  return images.map((image, idx) => ({
+    id: Math.random().toString(36).substr(2, 9),
+    pageNumber: idx + 1,
+    image,
+    previewUrl: URL.createObjectURL(image),
+    status: 'pending',
+    progress: 0,
+  }));
+};
+
+// A queue unit is either a plain image file or a single page of a document
+export interface WorkUnit {
+  id: string;
+  fileId: string;
+  pageNumber?: number;
+  image: Blob;
+  label: string;
+}
+
+// Failed and cancelled units run again on the next batch, which doubles as a manual retry
+const RUNNABLE: ProcessingStatus[] = ['pending', 'error', 'cancelled'];
+
+export const collectWorkUnits = (files: ProcessingFile[]): WorkUnit[] =>
+  files.flatMap((f): WorkUnit[] => {
+    if (!f.pages) {
+      // A document that failed to render has no pages, and queueing it whole would only fail again as an image
+      return RUNNABLE.includes(f.status) && !isMultiPageDocument(f.file)
+        ? [{ id: f.id, fileId: f.id, image: f.file, label: f.file.name }]
+        : [];
+    }
+    return f.pages
+      .filter(p => RUNNABLE.includes(p.status))
+      .map(p => ({ id: p.id, fileId: f.id, pageNumber: p.pageNumber, image: p.image, label: `${f.file.name} p.${p.pageNumber}` }));
+  });
+
+// Unit ids belonging to a file: the file itself, or every one of its pages
+export const unitIdsOf = (file: ProcessingFile): string[] =>
+  file.pages ? file.pages.map(p => p.id) : [file.id];
+
+const aggregateStatus = (pages: ProcessingPage[]): ProcessingStatus => {
+  const has = (status: ProcessingStatus) => pages.some(p => p.status === status);
+  if (has('processing')) return 'processing';
+  if (has('pending')) return 'pending';
+  if (has('paused')) return 'paused';
+  if (has('error')) return 'error';
+  if (pages.every(p => p.status === 'cancelled')) return 'cancelled';
+  return 'completed';
+};
+
+export interface UnitPatch {
+  status?: ProcessingStatus;
+  progress?: number;
+  rawText?: string;
+  error?: ProcessingError;
+  usage?: UsageStats;
+}
+
+export const applyUnitPatch = (files: ProcessingFile[], unitId: string, changes: UnitPatch): ProcessingFile[] =>
+  files.map(f => {
+    if (f.id === unitId) return { ...f, ...changes };
+    if (!f.pages || !f.pages.some(p => p.id === unitId)) return f;
+
+    const pages = f.pages.map(p => (p.id === unitId ? { ...p, ...changes } : p));
+    const failed = pages.find(p => p.status === 'error');
+    return {
+      ...f,
+      pages,
+      status: aggregateStatus(pages),
+      progress: Math.round(pages.reduce((sum, p) => sum + p.progress, 0) / pages.length),
+      error: failed?.error,
+      usage: sumUsage(pages.map(p => p.usage)),
+    };
+  });
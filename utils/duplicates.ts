@@ -0,0 +1,20 @@
+// Implement exact and near-duplicate detection for uploads before they are queued
+import { DuplicateMatch, ProcessingFile } from '../types';
+import { NEAR_DUPLICATE_DISTANCE, hammingDistance } from './imageProcessing';
+
+// Exact byte matches win over perceptual ones; among near matches the closest is reported
+export const findDuplicate = (entry: ProcessingFile, others: ProcessingFile[]): DuplicateMatch | undefined => {
+  let best: DuplicateMatch | undefined;
+  for (const other of others) {
+    if (other.id === entry.id) continue;
+    if (entry.contentHash && other.contentHash === entry.contentHash) {
+      return { fileId: other.id, fileName: other.file.name, kind: 'exact', distance: 0 };
+    }
+    if (!entry.perceptualHash || !other.perceptualHash) continue;
+    const distance = hammingDistance(entry.perceptualHash, other.perceptualHash);
+    if (distance <= NEAR_DUPLICATE_DISTANCE && (!best || distance < best.distance)) {
+      best = { fileId: other.id, fileName: other.file.name, kind: 'near', distance };
+    }
+  }
+  return best;
+};
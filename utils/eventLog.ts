@@ -0,0 +1,60 @@
+// Implement the structured event log: typed events, stage timing, filtering and JSONL export
+import { LogContext, LogEvent, LogLevel, PipelineStage, StageDurations } from '../types';
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'success', 'error', 'system'];
+
+const STAGE_ORDER: PipelineStage[] = ['read', 'ocr', 'parse'];
+
+export interface LogFilter {
+  level: LogLevel | 'all';
+  fileId: string | 'all';
+}
+
+export const DEFAULT_LOG_FILTER: LogFilter = { level: 'all', fileId: 'all' };
+
+export const createLogEvent = (message: string, level: LogLevel = 'info', context: LogContext = {}): LogEvent => ({
+  id: Math.random().toString(36).substr(2, 9),
+  timestamp: Date.now(),
+  level,
+  message,
+  ...context,
+});
+
+export const filterEvents = (events: LogEvent[], filter: LogFilter): LogEvent[] =>
+  events.filter(event =>
+    (filter.level === 'all' || event.level === filter.level) &&
+    (filter.fileId === 'all' || event.fileId === filter.fileId)
+  );
+
+// Files that appear in the log, in order of first mention, for the file filter
+export const loggedFiles = (events: LogEvent[]): { fileId: string; fileName: string }[] => {
+  const files = new Map<string, string>();
+  events.forEach(event => {
+    if (event.fileId && !files.has(event.fileId)) files.set(event.fileId, event.fileName || event.fileId);
+  });
+  return Array.from(files, ([fileId, fileName]) => ({ fileId, fileName }));
+};
+
+// Adds the wall time of `run` to `stage`, including when it throws; stages timed in several steps accumulate
+export const timeStage = async <T,>(durations: StageDurations, stage: PipelineStage, run: () => Promise<T>): Promise<T> => {
+  const start = performance.now();
+  try {
+    return await run();
+  } finally {
+    durations[stage] = (durations[stage] || 0) + Math.round(performance.now() - start);
+  }
+};
+
+export const formatDuration = (ms: number): string => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+export const formatDurations = (durations: StageDurations): string =>
+  STAGE_ORDER.filter(stage => durations[stage] !== undefined)
+    .map(stage => `${stage} ${formatDuration(durations[stage] as number)}`)
+    .join(' / ');
+
+export const formatEventTime = (event: LogEvent): string =>
+  new Date(event.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// One JSON object per line with an ISO time alongside the epoch value, so the file greps and parses cleanly
+export const toJSONL = (events: LogEvent[]): string =>
+  events.map(event => JSON.stringify({ time: new Date(event.timestamp).toISOString(), ...event })).join('\n') + (events.length > 0 ? '\n' : '');
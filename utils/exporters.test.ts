@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import { ExportFormatId, ExportTemplate, ExtractedEntity, ExtractedNumber } from '../types';
+import { bytesToBase64, encodeArchive, getExportFormat, listExportFormats } from './exporters';
+import { DEFAULT_TEMPLATE } from './templates';
+
+const FULL_TEMPLATE: ExportTemplate = {
+  id: 'full',
+  name: 'Full',
+  columns: ['name', 'phone', 'phoneType', 'email', 'organization', 'labels', 'notes'],
+  nameTemplate: '{name} ({source})',
+  labels: 'Leads, {region}',
+};
+
+const num = (formatted: string, overrides: Partial<ExtractedNumber> = {}): ExtractedNumber => ({
+  id: formatted,
+  original: formatted,
+  formatted,
+  sourceImage: 'card.png',
+  reviewStatus: 'approved',
+  matchedBy: 'regex',
+  ...overrides,
+});
+
+const entity = (type: ExtractedEntity['type'], value: string): ExtractedEntity => ({ type, value, original: value });
+
+const RAVI = num('+919876543210', {
+  name: 'Ravi Kumar',
+  region: 'IN',
+  phoneType: 'mobile',
+  entities: [
+    entity('email', 'ravi@kumar.in'),
+    entity('email', 'sales@kumar.in'),
+    entity('organization', 'Kumar Logistics'),
+    entity('upi', 'ravi@okaxis'),
+  ],
+});
+const OFFICE = num('+918023456789', { name: 'Front Desk, "Main"', region: 'IN', phoneType: 'landline', sourcePage: 2 });
+// A merged address-book contact carries its further numbers as phone entities
+const MERGED = num('+971501234567', {
+  name: 'Sara',
+  region: 'AE',
+  phoneType: 'mobile',
+  sourceImage: 'book.vcf',
+  entities: [entity('phone', '+97141234567'), entity('phone', '+9718001234'), entity('note', 'Prefers WhatsApp')],
+  matchedBy: 'imported',
+});
+
+const generate = (id: ExportFormatId, data: ExtractedNumber[], template = DEFAULT_TEMPLATE): string => {
+  const content = getExportFormat(id).generate(data, template);
+  return typeof content === 'string' ? content : new TextDecoder().decode(content);
+};
+
+const outputLines = (id: ExportFormatId, data: ExtractedNumber[], template?: ExportTemplate) => generate(id, data, template).split('\r\n');
+
+// Inline string cells of the stored (uncompressed) sheet, row by row
+const sheetRows = (data: ExtractedNumber[], template = DEFAULT_TEMPLATE): string[][] => {
+  const sheet = generate('xlsx', data, template).match(/<sheetData>(.*)<\/sheetData>/s)?.[1] || '';
+  return Array.from(sheet.matchAll(/<row [^>]*>(.*?)<\/row>/gs), ([, row]) =>
+    Array.from(row.matchAll(/<t xml:space="preserve">(.*?)<\/t>/gs), ([, value]) => value)
+  );
+};
+
+describe('export format registry', () => {
+  it('lists every format once', () => {
+    expect(listExportFormats().map(f => f.id)).toEqual(['google-csv', 'outlook-csv', 'vcard-3', 'vcard-4', 'json', 'xlsx']);
+  });
+
+  it('rejects an unknown format', () => {
+    expect(() => getExportFormat('pdf' as ExportFormatId)).toThrow('Unknown export format: pdf');
+  });
+
+  it.each<ExportFormatId>(['google-csv', 'outlook-csv', 'vcard-3', 'vcard-4'])('writes nothing for an empty %s export', id => {
+    expect(generate(id, [])).toBe('');
+  });
+});
+
+describe('Google Contacts CSV', () => {
+  it('writes name and phone with the standard template', () => {
+    expect(outputLines('google-csv', [RAVI, OFFICE])).toEqual([
+      'Name,Phone 1 - Value',
+      'Ravi Kumar,+919876543210',
+      '"Front Desk, ""Main""",+918023456789',
+    ]);
+  });
+
+  it('writes every optional column a template selects', () => {
+    expect(generate('google-csv', [RAVI], FULL_TEMPLATE)).toBe(
+      'Name,Phone 1 - Type,Phone 1 - Value,E-mail 1 - Value,Organization 1 - Name,Labels,Notes\r\n' +
+        'Ravi Kumar (card),Mobile,+919876543210,ravi@kumar.in,Kumar Logistics,Leads ::: IN ::: * myContacts,"Source: card.png\nUPI: ravi@okaxis"'
+    );
+  });
+
+  it('adds a phone slot for each further number of a merged contact', () => {
+    expect(outputLines('google-csv', [MERGED, RAVI])).toEqual([
+      'Name,Phone 1 - Value,Phone 2 - Value,Phone 3 - Value',
+      'Sara,+971501234567,+97141234567,+9718001234',
+      'Ravi Kumar,+919876543210,,',
+    ]);
+  });
+});
+
+describe('Outlook CSV', () => {
+  it('files numbers under Mobile Phone without a type column', () => {
+    expect(outputLines('outlook-csv', [RAVI, OFFICE])).toEqual([
+      'First Name,Mobile Phone',
+      'Ravi Kumar,+919876543210',
+      '"Front Desk, ""Main""",+918023456789',
+    ]);
+  });
+
+  it('files numbers under their typed column', () => {
+    const template = { ...DEFAULT_TEMPLATE, columns: [...DEFAULT_TEMPLATE.columns, 'phoneType' as const] };
+    expect(outputLines('outlook-csv', [RAVI, OFFICE, MERGED], template)).toEqual([
+      'First Name,Mobile Phone,Business Phone,Other Phone',
+      'Ravi Kumar,+919876543210,,',
+      '"Front Desk, ""Main""",,+918023456789,',
+      'Sara,+971501234567,+97141234567,+9718001234',
+    ]);
+  });
+
+  it('moves further numbers into overflow columns when a typed column is taken', () => {
+    expect(outputLines('outlook-csv', [MERGED])).toEqual([
+      'First Name,Mobile Phone,Other Phone,Business Phone 2',
+      'Sara,+971501234567,+97141234567,+9718001234',
+    ]);
+  });
+});
+
+describe('vCard', () => {
+  it.each<[ExportFormatId, string[]]>([
+    ['vcard-3', ['VERSION:3.0', 'TEL;TYPE=VOICE:+971501234567', 'TEL;TYPE=VOICE:+97141234567', 'TEL;TYPE=VOICE:+9718001234']],
+    ['vcard-4', ['VERSION:4.0', 'TEL;VALUE=uri;TYPE=voice:tel:+971501234567', 'TEL;VALUE=uri;TYPE=voice:tel:+97141234567', 'TEL;VALUE=uri;TYPE=voice:tel:+9718001234']],
+  ])('writes %s with one TEL line per number', (id, expected) => {
+    const lines = outputLines(id, [MERGED]);
+    expected.forEach(line => expect(lines).toContain(line));
+    expect(lines.filter(line => line.startsWith('TEL'))).toHaveLength(3);
+  });
+
+  it('escapes text and keeps every email', () => {
+    const card = outputLines('vcard-3', [RAVI, OFFICE], FULL_TEMPLATE);
+    expect(card).toEqual(expect.arrayContaining([
+      'FN:Ravi Kumar (card)',
+      'TEL;TYPE=CELL:+919876543210',
+      'EMAIL;TYPE=INTERNET:ravi@kumar.in',
+      'EMAIL;TYPE=INTERNET:sales@kumar.in',
+      'ORG:Kumar Logistics',
+      'CATEGORIES:Leads,IN',
+      'NOTE:Source: card.png\\nUPI: ravi@okaxis',
+      'FN:Front Desk\\, "Main" (card)',
+      'TEL;TYPE=WORK:+918023456789',
+      'NOTE:Source: card.png (page 2)',
+    ]));
+    expect(card.filter(line => line === 'BEGIN:VCARD')).toHaveLength(2);
+  });
+
+  it('folds lines longer than 75 octets without splitting a character', () => {
+    const long = num('+919876543210', { name: 'Ünïcödé '.repeat(12) });
+    const lines = outputLines('vcard-4', [long]);
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    expect(lines.join('\r\n').replace(/\r\n /g, '')).toContain(`FN:${'Ünïcödé '.repeat(12).trim()}`);
+  });
+});
+
+describe('JSON', () => {
+  it('keeps the full record alongside the rendered name and labels', () => {
+    const exported = JSON.parse(generate('json', [RAVI], FULL_TEMPLATE));
+    expect(exported).toMatchObject({ template: 'Full', count: 1 });
+    expect(exported.contacts[0]).toMatchObject({
+      name: 'Ravi Kumar (card)',
+      extractedName: 'Ravi Kumar',
+      labels: ['Leads', 'IN'],
+      formatted: '+919876543210',
+      entities: RAVI.entities,
+    });
+  });
+});
+
+describe('XLSX', () => {
+  it('writes numbers as text so the leading "+" survives', () => {
+    expect(sheetRows([RAVI, OFFICE])).toEqual([
+      ['Name', 'Phone', 'Region'],
+      ['Ravi Kumar', '+919876543210', 'IN'],
+      ['Front Desk, &quot;Main&quot;', '+918023456789', 'IN'],
+    ]);
+  });
+
+  it('adds an Other Phones column only when a contact has further numbers', () => {
+    expect(sheetRows([MERGED, RAVI], FULL_TEMPLATE)[0]).toEqual(['Name', 'Type', 'Phone', 'Region', 'Other Phones', 'Email', 'Organisation', 'Labels', 'Notes']);
+    expect(sheetRows([MERGED, RAVI], FULL_TEMPLATE)[1]).toEqual([
+      'Sara (book)', 'Mobile', '+971501234567', 'AE', '+97141234567, +9718001234', '', '', 'Leads, AE', 'Source: book.vcf\nPrefers WhatsApp',
+    ]);
+  });
+});
+
+describe('archive encoding', () => {
+  it.each<[string, Uint8Array]>([
+    ['empty', new Uint8Array()],
+    ['bytes', Uint8Array.from([0, 1, 127, 128, 255])],
+    ['a large archive', new Uint8Array(70000).map((_, i) => i % 256)],
+  ])('round-trips %s through base64', (_label, bytes) => {
+    const encoded = encodeArchive(bytes);
+    expect(encoded).toBe(bytesToBase64(bytes));
+    expect(Uint8Array.from(atob(encoded), c => c.charCodeAt(0))).toEqual(bytes);
+  });
+
+  it('stores text archives as they are', () => {
+    expect(encodeArchive('Name,Phone 1 - Value')).toBe('Name,Phone 1 - Value');
+  });
+});
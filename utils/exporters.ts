@@ -0,0 +1,108 @@
+// Implement the export format registry used by the archive generator and history downloads
+import { DownloadHistory, ExportFormatId, ExportTemplate, ExtractedNumber } from '../types';
+import { generateCSV, generateOutlookCSV, downloadFile } from './csv';
+import { contactPhones, hasColumn, phoneTypeLabel, primaryEntity, renderLabels, renderName, renderNotes } from './templates';
+import { generateVCard } from './vcard';
+import { generateXLSX } from './xlsx';
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  binary: boolean;
+  generate: (data: ExtractedNumber[], template: ExportTemplate) => string | Uint8Array;
+}
+
+const generateJSON = (data: ExtractedNumber[], template: ExportTemplate): string => {
+  const date = new Date();
+  return JSON.stringify(
+    {
+      exportedAt: date.toISOString(),
+      template: template.name,
+      count: data.length,
+      contacts: data.map((num, index) => ({
+        ...num,
+        name: renderName(template, num, { index, date }),
+        extractedName: num.name,
+        labels: renderLabels(template, num, { index, date }),
+      })),
+    },
+    null,
+    2
+  );
+};
+
+const generateContactsXLSX = (data: ExtractedNumber[], template: ExportTemplate): Uint8Array => {
+  const date = new Date();
+  const headers = ['Name'];
+  if (hasColumn(template, 'phoneType')) headers.push('Type');
+  headers.push('Phone', 'Region');
+  // Only merged address-book contacts carry more than one number
+  const otherPhones = data.map(num => contactPhones(num).slice(1).map(phone => phone.formatted).join(', '));
+  const hasOtherPhones = otherPhones.some(Boolean);
+  if (hasOtherPhones) headers.push('Other Phones');
+  if (hasColumn(template, 'email')) headers.push('Email');
+  if (hasColumn(template, 'organization')) headers.push('Organisation');
+  if (hasColumn(template, 'labels')) headers.push('Labels');
+  if (hasColumn(template, 'notes')) headers.push('Notes');
+
+  return generateXLSX(
+    headers,
+    data.map((num, index) => {
+      const ctx = { index, date };
+      const row = [renderName(template, num, ctx)];
+      if (hasColumn(template, 'phoneType')) row.push(phoneTypeLabel(num));
+      row.push(num.formatted, num.region || '');
+      if (hasOtherPhones) row.push(otherPhones[index]);
+      if (hasColumn(template, 'email')) row.push(primaryEntity(num, 'email'));
+      if (hasColumn(template, 'organization')) row.push(primaryEntity(num, 'organization'));
+      if (hasColumn(template, 'labels')) row.push(renderLabels(template, num, ctx).join(', '));
+      if (hasColumn(template, 'notes')) row.push(renderNotes(num));
+      return row;
+    })
+  );
+};
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormatId = 'google-csv';
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  { id: 'google-csv', label: 'Google Contacts CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;', binary: false, generate: generateCSV },
+  { id: 'outlook-csv', label: 'Outlook / Microsoft 365 CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;', binary: false, generate: generateOutlookCSV },
+  { id: 'vcard-3', label: 'vCard 3.0 (iOS)', extension: 'vcf', mimeType: 'text/vcard;charset=utf-8', binary: false, generate: (data, template) => generateVCard(data, '3.0', template) },
+  { id: 'vcard-4', label: 'vCard 4.0 (Android)', extension: 'vcf', mimeType: 'text/vcard;charset=utf-8', binary: false, generate: (data, template) => generateVCard(data, '4.0', template) },
+  { id: 'json', label: 'JSON (Full Provenance)', extension: 'json', mimeType: 'application/json', binary: false, generate: generateJSON },
+  { id: 'xlsx', label: 'Excel Workbook (XLSX)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', binary: true, generate: generateContactsXLSX },
+];
+
+export const listExportFormats = (): ExportFormat[] => EXPORT_FORMATS;
+
+export const getExportFormat = (id: ExportFormatId): ExportFormat => {
+  const format = EXPORT_FORMATS.find(f => f.id === id);
+  if (!format) {
+    throw new Error(`Unknown export format: ${id}`);
+  }
+  return format;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+// Serialises an export for storage in DownloadHistory.data
+export const encodeArchive = (content: string | Uint8Array): string =>
+  typeof content === 'string' ? content : bytesToBase64(content);
+
+export const downloadArchive = (item: Pick<DownloadHistory, 'data' | 'filename' | 'format'>): void => {
+  const format = getExportFormat(item.format);
+  const content = format.binary ? base64ToBytes(item.data) : item.data;
+  downloadFile(content, item.filename, format.mimeType);
+};
@@ -0,0 +1,180 @@
+// Implement the post-OCR entity extractor registry and the linking of entities to contacts
+import { EntityType, ExtractedEntity, ExtractedNumber, OcrRecord, PhoneParseOptions } from '../types';
+import { DEFAULT_PHONE_OPTIONS, parsePhoneNumber, parsePhoneNumbers } from './phoneNumbers';
+
+// Contract every extractor registered below must satisfy
+export interface EntityExtractor {
+  type: EntityType;
+  label: string;
+  // Raw candidates in one line of OCR text; nothing a contact needs ever spans a line break
+  scan: (line: string, options: PhoneParseOptions) => string[];
+  normalize: (raw: string, options: PhoneParseOptions) => string;
+  validate: (value: string, options: PhoneParseOptions) => boolean;
+}
+
+export interface LocatedEntity extends ExtractedEntity {
+  // 0-based line of the OCR text the entity was read from
+  line: number;
+}
+
+const EMAIL_REGEX = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+const EMAIL_VALID = /^[a-z0-9](?:[a-z0-9._%+-]*[a-z0-9_%+-])?@(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+
+// UPI handles have no dot after the "@" (okaxis, ybl, paytm), which keeps them apart from email addresses
+const UPI_REGEX = /(?<![\w.@-])[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}(?![\w.@-])/gi;
+const UPI_VALID = /^[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}$/;
+
+const ORG_SUFFIXES = [
+  'Private Limited', 'Pvt\\.? Ltd\\.?', 'Limited', 'Ltd\\.?', 'LLP', 'LLC', 'FZ-?LLC', 'FZE', 'Inc\\.?', 'Corp\\.?',
+  'Corporation', 'GmbH', 'PLC', '& Co\\.?',
+];
+// Up to five capitalised words ending in a legal-form suffix, e.g. "Acme Traders Pvt Ltd"
+const ORG_REGEX = new RegExp(`(?:[A-Z0-9&][\\w&'.-]*\\s+){1,5}(?:${ORG_SUFFIXES.join('|')})(?!\\w)`, 'g');
+// Or an explicitly labelled line such as "Company: Acme Traders"
+const ORG_LABEL_REGEX = /^\s*(?:company|organi[sz]ation|firm|business)\s*[:\-]\s*(.+)$/i;
+
+const matches = (line: string, pattern: RegExp): string[] => Array.from(line.matchAll(pattern), m => m[0]);
+
+const phoneExtractor: EntityExtractor = {
+  type: 'phone',
+  label: 'Phone Numbers',
+  scan: (line, options) => parsePhoneNumbers(line, options).map(parsed => parsed.raw),
+  normalize: (raw, options) => parsePhoneNumber(raw, options)?.e164 || raw.trim(),
+  validate: (value, options) => parsePhoneNumber(value, options) !== null,
+};
+
+const emailExtractor: EntityExtractor = {
+  type: 'email',
+  label: 'Email Addresses',
+  scan: line => matches(line, EMAIL_REGEX),
+  normalize: raw => raw.trim().toLowerCase().replace(/\.+$/, ''),
+  validate: value => EMAIL_VALID.test(value) && !value.includes('..'),
+};
+
+const upiExtractor: EntityExtractor = {
+  type: 'upi',
+  label: 'UPI IDs',
+  scan: line => matches(line, UPI_REGEX),
+  normalize: raw => raw.trim().toLowerCase(),
+  validate: value => UPI_VALID.test(value),
+};
+
+const organizationExtractor: EntityExtractor = {
+  type: 'organization',
+  label: 'Organisations',
+  scan: line => {
+    const labelled = line.match(ORG_LABEL_REGEX);
+    return labelled ? [labelled[1]] : matches(line, ORG_REGEX);
+  },
+  normalize: raw => raw.replace(/\s+/g, ' ').replace(/^[\s,;:-]+|[\s,;:-]+$/g, ''),
+  validate: value => value.length >= 2 && value.length <= 100 && /[a-z]/i.test(value),
+};
+
+const extractors = new Map<EntityType, EntityExtractor>();
+
+export const registerExtractor = (extractor: EntityExtractor): void => {
+  extractors.set(extractor.type, extractor);
+};
+
+export const listExtractors = (): EntityExtractor[] => Array.from(extractors.values());
+
+export const getExtractor = (type: EntityType): EntityExtractor => {
+  const extractor = extractors.get(type);
+  if (!extractor) {
+    throw new Error(`Unknown entity extractor: ${type}`);
+  }
+  return extractor;
+};
+
+[phoneExtractor, emailExtractor, upiExtractor, organizationExtractor].forEach(registerExtractor);
+
+export const ALL_ENTITY_TYPES: EntityType[] = listExtractors().map(extractor => extractor.type);
+
+// Phone numbers key every contact, so 'phone' is always part of the list
+export const DEFAULT_ENTITY_TYPES: EntityType[] = ALL_ENTITY_TYPES;
+
+// Runs a raw value through the type's normaliser and validator; null when it is rejected
+export const normalizeEntity = (
+  type: EntityType,
+  raw: string,
+  options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS
+): ExtractedEntity | null => {
+  const extractor = getExtractor(type);
+  const value = extractor.normalize(raw, options);
+  return extractor.validate(value, options) ? { type, value, original: raw.trim() } : null;
+};
+
+/**
+ * Scans OCR text line by line with every requested extractor. Each value is
+ * reported once, at the first line it appears on.
+ */
+export function scanEntities(
+  text: string,
+  types: EntityType[],
+  options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS
+): LocatedEntity[] {
+  const found: LocatedEntity[] = [];
+  const seen = new Set<string>();
+  text.split('\n').forEach((line, index) => {
+    for (const type of types) {
+      for (const raw of getExtractor(type).scan(line, options)) {
+        const entity = normalizeEntity(type, raw, options);
+        if (!entity || seen.has(`${type}:${entity.value}`)) continue;
+        seen.add(`${type}:${entity.value}`);
+        found.push({ ...entity, line: index });
+      }
+    }
+  });
+  return found;
+}
+
+// Fields a structured provider filled in next to the number
+export const recordEntities = (
+  record: OcrRecord,
+  types: EntityType[],
+  options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS
+): ExtractedEntity[] => {
+  const fields: [EntityType, string | undefined][] = [['email', record.email], ['upi', record.upiId], ['organization', record.organization]];
+  return fields
+    .filter(([type, raw]) => raw && types.includes(type))
+    .map(([type, raw]) => normalizeEntity(type, raw as string, options))
+    .filter((entity): entity is ExtractedEntity => entity !== null);
+};
+
+// Entities further than this many lines from every number are treated as unrelated
+export const LINK_WINDOW = 2;
+
+/**
+ * Attaches each non-phone entity to the nearest phone number in the text,
+ * preferring the number above it on a tie since contact blocks read top-down.
+ * When the text holds a single number (a business card, say) everything
+ * belongs to it regardless of distance. Returns entities keyed by E.164.
+ */
+export function linkEntities(entities: LocatedEntity[], phones: LocatedEntity[]): Map<string, ExtractedEntity[]> {
+  const linked = new Map<string, ExtractedEntity[]>();
+  for (const entity of entities) {
+    if (entity.type === 'phone') continue;
+    const nearest = phones.reduce<LocatedEntity | undefined>((best, phone) => {
+      if (!best) return phone;
+      const distance = Math.abs(phone.line - entity.line);
+      const bestDistance = Math.abs(best.line - entity.line);
+      return distance < bestDistance || (distance === bestDistance && phone.line < best.line) ? phone : best;
+    }, undefined);
+    if (!nearest || (phones.length > 1 && Math.abs(nearest.line - entity.line) > LINK_WINDOW)) continue;
+    const { line, ...rest } = entity;
+    linked.set(nearest.value, [...(linked.get(nearest.value) || []), rest]);
+  }
+  return linked;
+}
+
+// Union by type and value, keeping the first reading of each
+export const mergeEntities = (...groups: (ExtractedEntity[] | undefined)[]): ExtractedEntity[] => {
+  const merged = new Map<string, ExtractedEntity>();
+  groups.flat().forEach(entity => {
+    if (entity && !merged.has(`${entity.type}:${entity.value}`)) merged.set(`${entity.type}:${entity.value}`, entity);
+  });
+  return Array.from(merged.values());
+};
+
+export const entityValues = (num: Pick<ExtractedNumber, 'entities'>, type: EntityType): string[] =>
+  (num.entities || []).filter(entity => entity.type === type).map(entity => entity.value);
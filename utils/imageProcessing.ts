@@ -1,5 +1,25 @@
-// Implement image to base64 conversion and robust Indian mobile extraction
-export const preprocessImage = (file: File): Promise<string> => {
+// Implement the client-side canvas preprocessing pipeline
+import { ImageTile, PreparedImage, PreprocessOptions } from '../types';
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 2048,
+  grayscale: false,
+  contrast: 1,
+  threshold: null,
+  tileTallImages: true,
+  flagNearDuplicates: false,
+};
+
+// Images taller than this many widths are treated as scrolling screenshots and split into tiles
+const TALL_ASPECT_RATIO = 2.5;
+// Each tile is 1.5 widths tall and overlaps the next by enough to keep a text line whole on one side of the seam
+const TILE_ASPECT_RATIO = 1.5;
+const TILE_OVERLAP_RATIO = 0.15;
+
+// Formats the OCR engines accept as-is; anything else is re-encoded through the canvas
+const PASSTHROUGH_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const readAsBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => {
@@ -8,30 +28,207 @@ export const preprocessImage = (file: File): Promise<string> => {
       resolve(base64Data);
     };
     reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsDataURL(file);
+    reader.readAsDataURL(blob);
   });
 };
 
 /**
- * Extracts Indian mobile numbers from text and formats them to 91XXXXXXXXXX.
- * Specifically targets numbers starting with 6, 7, 8, or 9.
+ * Detects the real image type from its magic bytes; upload MIME types and
+ * extensions are frequently wrong for screenshots shared through chat apps.
+ */
+export const detectMimeType = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 2) === 'BM') return 'image/bmp';
+  if (ascii(4, 8) === 'ftyp' && /^hei[cx]|^mif1|^heif/.test(ascii(8, 12))) return 'image/heic';
+  return blob.type || 'image/jpeg';
+};
+
+/**
+ * Reads the EXIF orientation tag (1-8) of a JPEG; 1 means upright and is
+ * returned for every other format or when the tag is missing.
  */
-export function extractAndFormatNumbers(text: string): string[] {
-  // Regex looks for 10-digit clusters starting with 6-9,
-  // potentially preceded by +91, 91, or 0, with flexible spacing.
-  const regex = /(?:(?:\+|0{0,2})91[\s-]?)?([6789][\s-]?\d[\s-]?\d[\s-]?\d[\s-]?\d[\s-]?\d[\s-]?\d[\s-]?\d[\s-]?\d[\s-]?\d)/g;
-  
-  const matches = Array.from(text.matchAll(regex));
-  const results: string[] = [];
-
-  for (const match of matches) {
-    // Extract only the digits from the captured group
-    const clean = match[1].replace(/\D/g, '');
-    if (clean.length === 10) {
-      results.push(`91${clean}`);
+export const readExifOrientation = async (blob: Blob): Promise<number> => {
+  const view = new DataView(await blob.slice(0, 65536).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+    // APP1 holding "Exif\0\0" followed by a TIFF header
+    if (marker === 0xe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
     }
+    // Start of scan: the metadata segments are all behind us
+    if (marker === 0xda) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getContext = (canvas: AnyCanvas) => {
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas is not available');
+  return ctx;
+};
+
+const canvasToBlob = (canvas: AnyCanvas, type: string): Promise<Blob> => {
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, 0.9);
+    });
+  }
+  return canvas.convertToBlob({ type, quality: 0.9 });
+};
+
+// Threshold runs on raw pixels because the canvas filter string has no binarisation step
+const applyThreshold = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, width: number, height: number, cutoff: number) => {
+  const image = ctx.getImageData(0, 0, width, height);
+  const px = image.data;
+  for (let i = 0; i < px.length; i += 4) {
+    const luma = 0.299 * px[i] + 0.587 * px[i + 1] + 0.114 * px[i + 2];
+    const value = luma >= cutoff ? 255 : 0;
+    px[i] = px[i + 1] = px[i + 2] = value;
   }
+  ctx.putImageData(image, 0, 0);
+};
+
+// A rotated photo must go through the canvas, since providers ignore the EXIF tag on the raw bytes
+const needsCanvas = (mimeType: string, width: number, height: number, scale: number, options: PreprocessOptions, tiled: boolean, orientation: number) =>
+  !PASSTHROUGH_TYPES.includes(mimeType) ||
+  orientation !== 1 ||
+  scale < 1 ||
+  tiled ||
+  options.grayscale ||
+  options.contrast !== 1 ||
+  options.threshold !== null ||
+  width === 0 ||
+  height === 0;
+
+/**
+ * Prepares an image for OCR: fixes EXIF orientation, downscales oversized
+ * photos, applies the optional grayscale/contrast/threshold passes and splits
+ * very tall scrolling screenshots into overlapping tiles. Untouched JPEG, PNG
+ * and WebP uploads are passed through byte-for-byte with their real MIME type.
+ */
+export const preprocessImage = async (file: Blob, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<PreparedImage> => {
+  const sourceMimeType = await detectMimeType(file);
+  const orientation = await readExifOrientation(file);
+  // 'from-image' applies the EXIF orientation tag so rotated phone photos arrive upright
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const tall = options.tileTallImages && bitmap.height / bitmap.width > TALL_ASPECT_RATIO;
+    const scale = Math.min(1, options.maxDimension / bitmap.width, tall ? 1 : options.maxDimension / bitmap.height);
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    if (!needsCanvas(sourceMimeType, bitmap.width, bitmap.height, scale, options, tall, orientation)) {
+      return {
+        width,
+        height,
+        sourceMimeType,
+        tiles: [{ base64: await readAsBase64(file), mimeType: sourceMimeType, offsetY: 0, height }],
+      };
+    }
+
+    const canvas = createCanvas(width, height);
+    const ctx = getContext(canvas);
+    const filters = [
+      options.grayscale ? 'grayscale(100%)' : '',
+      options.contrast !== 1 ? `contrast(${Math.round(options.contrast * 100)}%)` : '',
+    ].filter(Boolean);
+    ctx.filter = filters.length > 0 ? filters.join(' ') : 'none';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    if (options.threshold !== null) applyThreshold(ctx, width, height, options.threshold);
+
+    // Binarised output compresses far better as PNG and JPEG artefacts would blur the edges again
+    const outputType = options.threshold !== null ? 'image/png' : 'image/jpeg';
+    const tileHeight = tall ? Math.round(width * TILE_ASPECT_RATIO) : height;
+    const step = tall ? Math.round(tileHeight * (1 - TILE_OVERLAP_RATIO)) : height;
+
+    const tiles: ImageTile[] = [];
+    for (let offsetY = 0; offsetY < height; offsetY += step) {
+      const sliceHeight = Math.min(tileHeight, height - offsetY);
+      const tile = createCanvas(width, sliceHeight);
+      getContext(tile).drawImage(canvas, 0, offsetY, width, sliceHeight, 0, 0, width, sliceHeight);
+      tiles.push({ base64: await readAsBase64(await canvasToBlob(tile, outputType)), mimeType: outputType, offsetY, height: sliceHeight });
+      if (offsetY + sliceHeight >= height) break;
+    }
+
+    return { width, height, sourceMimeType, tiles };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Differing bits at or below this still read as the same capture
+export const NEAR_DUPLICATE_DISTANCE = 10;
+
+/**
+ * 64-bit difference hash: the image is shrunk to 9x8 grey pixels and each bit
+ * records whether a pixel is brighter than its right neighbour. Small crops,
+ * rescaling and recompression flip only a few bits.
+ */
+export const computeDHash = async (file: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const canvas = createCanvas(9, 8);
+    const ctx = getContext(canvas);
+    ctx.filter = 'grayscale(100%)';
+    ctx.drawImage(bitmap, 0, 0, 9, 8);
+    const px = ctx.getImageData(0, 0, 9, 8).data;
+    let hash = 0n;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const left = px[(y * 9 + x) * 4];
+        const right = px[(y * 9 + x + 1) * 4];
+        hash = (hash << 1n) | (left > right ? 1n : 0n);
+      }
+    }
+    return hash.toString(16).padStart(16, '0');
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+};
 
-  // Deduplicate results for the current image
-  return Array.from(new Set(results));
-}
\ No newline at end of file
+// Settings that change the bytes sent to OCR, used to keep cached results apart
+export const preprocessFingerprint = (options: PreprocessOptions): string =>
+  [options.maxDimension, Number(options.grayscale), options.contrast, options.threshold ?? 'none', Number(options.tileTallImages)].join('-');
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ExportScope, ExtractedNumber, LedgerEntry } from '../types';
+import { entriesOlderThan, indexLedger, lastExport, markExported, searchLedger, selectForExport } from './ledger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 2, 12);
+
+const entry = (number: string, ...exports: [string, number][]): LedgerEntry => ({
+  number,
+  firstExportedAt: Math.min(...exports.map(([, at]) => at)),
+  lastExportedAt: Math.max(...exports.map(([, at]) => at)),
+  exports: exports.map(([filename, timestamp]) => ({ filename, timestamp })),
+});
+
+const num = (formatted: string, overrides: Partial<ExtractedNumber> = {}): ExtractedNumber => ({
+  id: formatted,
+  original: formatted,
+  formatted,
+  sourceImage: 'card.png',
+  reviewStatus: 'approved',
+  matchedBy: 'regex',
+  ...overrides,
+});
+
+const LEDGER = [
+  entry('+919876543210', ['1.csv', NOW - 10 * DAY_MS], ['3.vcf', NOW - DAY_MS], ['2.csv', NOW - 5 * DAY_MS]),
+  entry('+447700900123', ['2.csv', NOW - 5 * DAY_MS]),
+  entry('+971501234567', ['old.xlsx', NOW - 40 * DAY_MS]),
+];
+
+describe('lastExport', () => {
+  it('picks the most recent archive regardless of order', () => {
+    expect(lastExport(LEDGER[0])).toEqual({ filename: '3.vcf', timestamp: NOW - DAY_MS });
+  });
+});
+
+describe('markExported', () => {
+  const index = indexLedger(LEDGER);
+
+  it.each<[string, ExtractedNumber, string | undefined]>([
+    ['a number in the ledger', num('+919876543210'), '3.vcf'],
+    ['a number not in the ledger', num('+918023456789'), undefined],
+    ['an edited number that left the ledger', num('+918023456789', { exportedBefore: { filename: '1.csv', timestamp: NOW } }), undefined],
+  ])('marks %s', (_label, number, filename) => {
+    expect(markExported(number, index).exportedBefore?.filename).toBe(filename);
+  });
+
+  it('returns the same object when the mark is unchanged', () => {
+    const marked = markExported(num('+919876543210'), index);
+    expect(markExported(marked, index)).toBe(marked);
+  });
+});
+
+describe('selectForExport', () => {
+  const numbers = [num('+919876543210'), num('+918023456789'), num('+447700900123'), num('+14155552671')];
+
+  it.each<[ExportScope, string[]]>([
+    ['all', ['+919876543210', '+918023456789', '+447700900123', '+14155552671']],
+    ['new-only', ['+918023456789', '+14155552671']],
+    ['merged', ['+919876543210', '+918023456789', '+447700900123', '+14155552671']],
+  ])('keeps the %s scope', (scope, expected) => {
+    expect(selectForExport(numbers, indexLedger(LEDGER), scope).map(n => n.formatted)).toEqual(expected);
+  });
+});
+
+describe('entriesOlderThan', () => {
+  it.each<[number, string[]]>([
+    [0, ['+919876543210', '+447700900123', '+971501234567']],
+    [3, ['+447700900123', '+971501234567']],
+    [30, ['+971501234567']],
+    [60, []],
+  ])('finds entries last exported more than %d days ago', (days, expected) => {
+    expect(entriesOlderThan(LEDGER, days, NOW).map(e => e.number)).toEqual(expected);
+  });
+});
+
+describe('searchLedger', () => {
+  it.each<[string, string[]]>([
+    ['', ['+919876543210', '+447700900123', '+971501234567']],
+    ['98765', ['+919876543210']],
+    ['+44 7700', ['+447700900123']],
+    ['CSV', ['+919876543210', '+447700900123']],
+    ['xlsx', ['+971501234567']],
+    ['nothing', []],
+  ])('matches %j by number or archive name, most recent first', (query, expected) => {
+    expect(searchLedger(LEDGER, query).map(e => e.number)).toEqual(expected);
+  });
+});
@@ -0,0 +1,40 @@
+// Implement lookups over the export ledger for cross-session deduplication
+import { ExportScope, ExtractedNumber, LedgerEntry, LedgerExport } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EXPORT_SCOPES: { id: ExportScope; label: string }[] = [
+  { id: 'all', label: 'All Approved' },
+  { id: 'new-only', label: 'Only New Since Last Export' },
+  { id: 'merged', label: 'Merged With Imported Contacts' },
+];
+
+export const indexLedger = (entries: LedgerEntry[]): Map<string, LedgerEntry> =>
+  new Map(entries.map(entry => [entry.number, entry]));
+
+export const lastExport = (entry: LedgerEntry): LedgerExport =>
+  entry.exports.reduce((latest, e) => e.timestamp > latest.timestamp ? e : latest);
+
+// Re-derives the "already exported" mark so it tracks ledger prunes and number edits
+export const markExported = (num: ExtractedNumber, index: Map<string, LedgerEntry>): ExtractedNumber => {
+  const entry = index.get(num.formatted);
+  const exportedBefore = entry ? lastExport(entry) : undefined;
+  if (exportedBefore?.filename === num.exportedBefore?.filename && exportedBefore?.timestamp === num.exportedBefore?.timestamp) return num;
+  return { ...num, exportedBefore };
+};
+
+export const selectForExport = (numbers: ExtractedNumber[], index: Map<string, LedgerEntry>, scope: ExportScope): ExtractedNumber[] =>
+  scope === 'new-only' ? numbers.filter(num => !index.has(num.formatted)) : numbers;
+
+export const entriesOlderThan = (entries: LedgerEntry[], days: number, now = Date.now()): LedgerEntry[] =>
+  entries.filter(entry => entry.lastExportedAt < now - days * DAY_MS);
+
+export const searchLedger = (entries: LedgerEntry[], query: string): LedgerEntry[] => {
+  const needle = query.trim().toLowerCase();
+  const sorted = [...entries].sort((a, b) => b.lastExportedAt - a.lastExportedAt);
+  if (!needle) return sorted;
+  return sorted.filter(entry =>
+    entry.number.includes(needle.replace(/[^\d+]/g, '') || needle) ||
+    entry.exports.some(e => e.filename.toLowerCase().includes(needle))
+  );
+};
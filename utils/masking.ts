@@ -0,0 +1,30 @@
+// Implement display masking of phone numbers for the UI and the terminal log
+import { PhoneParseOptions } from '../types';
+import { NUMBERING_PLANS, ALL_REGIONS, CANDIDATE_REGEX, DEFAULT_PHONE_OPTIONS, parsePhoneNumber } from './phoneNumbers';
+
+const VISIBLE_TAIL = 4;
+
+const maskDigits = (digits: string, keepHead: number): string =>
+  digits.length <= keepHead + VISIBLE_TAIL
+    ? digits
+    : digits.slice(0, keepHead) + 'X'.repeat(digits.length - keepHead - VISIBLE_TAIL) + digits.slice(-VISIBLE_TAIL);
+
+/**
+ * Keeps the country code and the last four digits: "+919876541234" becomes
+ * "+91XXXXXX1234". Numbers outside the known plans keep two leading digits.
+ */
+export const maskNumber = (e164: string): string => {
+  const digits = e164.replace(/\D/g, '');
+  const plan = ALL_REGIONS.map(r => NUMBERING_PLANS[r]).find(p => digits.startsWith(p.countryCode));
+  return `${e164.startsWith('+') ? '+' : ''}${maskDigits(digits, plan ? plan.countryCode.length : 2)}`;
+};
+
+// Masks every number-like run in free text, such as log lines and raw OCR output
+export const maskText = (text: string, options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS): string =>
+  text.replace(CANDIDATE_REGEX, candidate => {
+    // Every plan is tried so a number from a disallowed region is still hidden
+    const parsed = parsePhoneNumber(candidate, { ...options, allowedRegions: ALL_REGIONS });
+    if (parsed) return maskNumber(parsed.e164);
+    const digits = candidate.replace(/\D/g, '');
+    return digits.length > VISIBLE_TAIL + 2 ? maskDigits(digits, 0) : candidate;
+  });
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { PhoneNumberType, PhoneParseOptions, RegionCode } from '../types';
+import { parsePhoneNumber, parsePhoneNumbers } from './phoneNumbers';
+
+const inRegion = (defaultRegion: RegionCode, allowedRegions: RegionCode[] = ['IN', 'AE', 'GB', 'US']): PhoneParseOptions => ({
+  defaultRegion,
+  allowedRegions,
+});
+
+const VALID: [string, RegionCode, string, PhoneNumberType][] = [
+  // India
+  ['98765 43210', 'IN', '+919876543210', 'mobile'],
+  ['080-2345-6789', 'IN', '+918023456789', 'landline'],
+  ['(022) 23456789', 'IN', '+912223456789', 'landline'],
+  ['0141 2345678', 'IN', '+911412345678', 'landline'],
+  ['1800 123 4567', 'IN', '+9118001234567', 'toll_free'],
+  // United Arab Emirates
+  ['050 123 4567', 'AE', '+971501234567', 'mobile'],
+  ['04 123 4567', 'AE', '+97141234567', 'landline'],
+  ['800 1234', 'AE', '+9718001234', 'toll_free'],
+  // United Kingdom
+  ['07700 900123', 'GB', '+447700900123', 'mobile'],
+  ['020 7946 0958', 'GB', '+442079460958', 'landline'],
+  ['0800 123 4567', 'GB', '+448001234567', 'toll_free'],
+  // United States
+  ['(415) 555-2671', 'US', '+14155552671', 'fixed_or_mobile'],
+  ['1-800-555-0199', 'US', '+18005550199', 'toll_free'],
+];
+
+const INTERNATIONAL_FORMS: [string, RegionCode, string][] = [
+  ['+91 98765 43210', 'GB', '+919876543210'],
+  ['0091 98765 43210', 'GB', '+919876543210'],
+  ['91 98765 43210', 'US', '+919876543210'],
+  ['09876543210', 'IN', '+919876543210'],
+  ['+44 (0)20 7946 0958', 'IN', '+442079460958'],
+  ['0044 20 7946 0958', 'IN', '+442079460958'],
+  ['00971 50 123 4567', 'IN', '+971501234567'],
+  ['1 415 555 2671', 'US', '+14155552671'],
+  ['+1 (212) 555-0123', 'IN', '+12125550123'],
+];
+
+const REJECTED: [string, PhoneParseOptions][] = [
+  ['12345', inRegion('IN')],
+  ['+91 98765 43210 12345 6', inRegion('IN')],
+  ['+91 12345', inRegion('IN')],
+  ['1034567890', inRegion('IN')],
+  ['5012345678', inRegion('IN')],
+  ['+971 51 234 5678', inRegion('AE')],
+  ['07600 123456', inRegion('GB')],
+  ['(911) 555-0123', inRegion('US')],
+  ['(011) 555-0123', inRegion('US')],
+  ['+1 (212) 555-0123', inRegion('IN', ['IN'])],
+];
+
+describe('parsePhoneNumber', () => {
+  it.each(VALID)('reads %s in %s as %s (%s)', (raw, region, e164, type) => {
+    const parsed = parsePhoneNumber(raw, inRegion(region));
+    expect(parsed?.e164).toBe(e164);
+    expect(parsed?.type).toBe(type);
+  });
+
+  it.each(INTERNATIONAL_FORMS)('reads %s with default region %s as %s', (raw, region, e164) => {
+    expect(parsePhoneNumber(raw, inRegion(region))?.e164).toBe(e164);
+  });
+
+  it.each(REJECTED)('rejects %s', (raw, options) => {
+    expect(parsePhoneNumber(raw, options)).toBeNull();
+  });
+});
+
+describe('parsePhoneNumbers', () => {
+  it.each<[string, string[]]>([
+    ['Priya: call me on 9123456780\nAmit - 91 87654 32109', ['+919123456780', '+918765432109']],
+    ['98765 43210 99887 76655', ['+919876543210', '+919988776655']],
+    ['Office 080 2345 6789 / Mobile 98765 43210', ['+918023456789', '+919876543210']],
+    ['Sent 12.03.2024 from 98765 43210', ['+919876543210']],
+  ])('finds the numbers in %j', (text, expected) => {
+    expect(parsePhoneNumbers(text, inRegion('IN')).map(n => n.e164)).toEqual(expected);
+  });
+
+  it.each<[string, PhoneParseOptions]>([
+    ['[2024-03-12 10:45] Priya: see you there', inRegion('IN')],
+    ['12.03.2024 10:45', inRegion('IN')],
+    ['12/03/2024 10:45 pm', inRegion('IN')],
+    ['Ref 2023-1145-67', inRegion('IN')],
+    ['ISBN 978-3-16-148410-0', inRegion('IN')],
+    ['+1 (212) 555-0123', inRegion('IN', ['IN'])],
+    ['Invoice #4471\nTotal 18,450.00', inRegion('IN')],
+  ])('finds nothing in %j', (text, options) => {
+    expect(parsePhoneNumbers(text, options)).toEqual([]);
+  });
+});
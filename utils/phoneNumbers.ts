@@ -0,0 +1,206 @@
+// Implement country-aware phone number parsing with E.164 normalization
+import { ParsedPhoneNumber, PhoneNumberType, PhoneParseOptions, RegionCode } from '../types';
+
+interface NumberingPlan {
+  region: RegionCode;
+  label: string;
+  countryCode: string;
+  // National prefix dialled before the significant number inside the country
+  trunkPrefix: string;
+  // Checked in order against the national significant number; the first match decides the type
+  patterns: { type: PhoneNumberType; pattern: RegExp }[];
+}
+
+export const NUMBERING_PLANS: Record<RegionCode, NumberingPlan> = {
+  IN: {
+    region: 'IN',
+    label: 'India',
+    countryCode: '91',
+    trunkPrefix: '0',
+    patterns: [
+      { type: 'toll_free', pattern: /^1800\d{6,7}$/ },
+      { type: 'mobile', pattern: /^[6-9]\d{9}$/ },
+      // STD code followed by a subscriber number starting 2-6: the eight two-digit metro codes, or a
+      // three- or four-digit code whose second digit is never 0
+      { type: 'landline', pattern: /^(?=\d{10}$)(?:(?:11|20|22|33|40|44|79|80)|[1-8][1-9]\d{1,2})[2-6]\d{5,7}$/ },
+    ],
+  },
+  AE: {
+    region: 'AE',
+    label: 'United Arab Emirates',
+    countryCode: '971',
+    trunkPrefix: '0',
+    patterns: [
+      { type: 'toll_free', pattern: /^800\d{4,7}$/ },
+      { type: 'mobile', pattern: /^5[024568]\d{7}$/ },
+      { type: 'landline', pattern: /^[2-4679]\d{7}$/ },
+    ],
+  },
+  GB: {
+    region: 'GB',
+    label: 'United Kingdom',
+    countryCode: '44',
+    trunkPrefix: '0',
+    patterns: [
+      { type: 'toll_free', pattern: /^80(?:0\d{6,7}|8\d{7})$/ },
+      { type: 'mobile', pattern: /^7(?:[1-57-9]\d{8}|624\d{6})$/ },
+      { type: 'landline', pattern: /^[123]\d{8,9}$/ },
+    ],
+  },
+  US: {
+    region: 'US',
+    label: 'United States',
+    countryCode: '1',
+    trunkPrefix: '1',
+    patterns: [
+      { type: 'toll_free', pattern: /^8(?:00|33|44|55|66|77|88)[2-9]\d{6}$/ },
+      // NANP does not separate mobile and fixed ranges, so these cannot be told apart
+      { type: 'fixed_or_mobile', pattern: /^[2-9](?!11)\d{2}[2-9]\d{6}$/ },
+    ],
+  },
+};
+
+export const ALL_REGIONS = Object.keys(NUMBERING_PLANS) as RegionCode[];
+
+export const DEFAULT_PHONE_OPTIONS: PhoneParseOptions = {
+  defaultRegion: 'IN',
+  allowedRegions: ALL_REGIONS,
+};
+
+// Digit runs joined by the separators people actually type; newlines always end a candidate
+export const CANDIDATE_REGEX = /(?<!\w)\+?\(?\d[\d \t\-.()]{5,}\d/g;
+const SEPARATOR_REGEX = /[ \t\-.()]+/;
+// Dates and year-led references ("2024-03-12", "12.03.2024", "2023-1145-67") are never numbers and must not join the digits around them
+const DATE_LIKE_REGEX = /(?<!\d)(?:(?:19|20)\d{2}[-/.]\d{1,4}[-/.]\d{1,4}|\d{1,2}[-/.]\d{1,2}[-/.](?:19|20)\d{2})(?!\d)/g;
+
+const classify = (plan: NumberingPlan, nationalNumber: string, preferred?: PhoneNumberType): PhoneNumberType | null => {
+  const candidates = plan.patterns.filter(p => p.pattern.test(nationalNumber));
+  const match = candidates.find(p => p.type === preferred) || candidates[0];
+  return match ? match.type : null;
+};
+
+// "080-2345 6789" or "(022) 23456789": a short trunk-prefixed first group reads as an area code
+const isAreaCodeGrouping = (raw: string, plan: NumberingPlan): boolean => {
+  const groups = raw.split(SEPARATOR_REGEX).filter(Boolean);
+  return groups.length > 1 && groups[0].startsWith(plan.trunkPrefix) && groups[0].length >= 3 && groups[0].length <= 5;
+};
+
+const buildResult = (raw: string, plan: NumberingPlan, nationalNumber: string): ParsedPhoneNumber | null => {
+  const preferred = isAreaCodeGrouping(raw, plan) ? 'landline' : undefined;
+  const type = classify(plan, nationalNumber, preferred);
+  if (!type) return null;
+  return {
+    raw: raw.trim(),
+    e164: `+${plan.countryCode}${nationalNumber}`,
+    region: plan.region,
+    type,
+    nationalNumber,
+  };
+};
+
+const parseInternational = (raw: string, digits: string, regions: RegionCode[]): ParsedPhoneNumber | null => {
+  for (const region of regions) {
+    const plan = NUMBERING_PLANS[region];
+    if (!digits.startsWith(plan.countryCode)) continue;
+    let national = digits.slice(plan.countryCode.length);
+    // Tolerate the common "+44 (0)20..." style where the trunk prefix is kept after the country code
+    if (plan.trunkPrefix === '0' && national.startsWith('0')) national = national.slice(1);
+    const result = buildResult(raw, plan, national);
+    if (result) return result;
+  }
+  return null;
+};
+
+const parseNational = (raw: string, digits: string, plan: NumberingPlan): ParsedPhoneNumber | null => {
+  const national = digits.startsWith(plan.trunkPrefix) ? digits.slice(plan.trunkPrefix.length) : digits;
+  return buildResult(raw, plan, national) || (national !== digits ? buildResult(raw, plan, digits) : null);
+};
+
+/**
+ * Parses a single written number. Explicit "+" or "00" prefixes are read as
+ * international; anything else is tried as a national number of the default
+ * region first, then as an international number written without the "+".
+ */
+export function parsePhoneNumber(
+  raw: string,
+  options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS
+): ParsedPhoneNumber | null {
+  const trimmed = raw.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (digits.length < 6 || digits.length > 15) return null;
+
+  const regions = options.allowedRegions;
+  if (trimmed.startsWith('+') || digits.startsWith('00')) {
+    if (!trimmed.startsWith('+')) digits = digits.slice(2);
+    return parseInternational(trimmed, digits, regions);
+  }
+
+  if (regions.includes(options.defaultRegion)) {
+    const national = parseNational(trimmed, digits, NUMBERING_PLANS[options.defaultRegion]);
+    if (national) return national;
+  }
+  return parseInternational(trimmed, digits, regions);
+}
+
+/**
+ * Scans free text for phone numbers in the allowed regions. Candidates that
+ * fail as a whole are split on plain spaces so that numbers written side by
+ * side on one line are still recovered individually. Hyphen and dot runs are
+ * never split, and a number written with a country code is never re-read as
+ * national numbers.
+ */
+export function parsePhoneNumbers(
+  text: string,
+  options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS
+): ParsedPhoneNumber[] {
+  const results: ParsedPhoneNumber[] = [];
+  const seen = new Set<string>();
+
+  const push = (parsed: ParsedPhoneNumber) => {
+    if (seen.has(parsed.e164)) return;
+    seen.add(parsed.e164);
+    results.push(parsed);
+  };
+
+  for (const match of text.replace(DATE_LIKE_REGEX, '\n').matchAll(CANDIDATE_REGEX)) {
+    const candidate = match[0].trim();
+    const whole = parsePhoneNumber(candidate, options);
+    if (whole) {
+      push(whole);
+      continue;
+    }
+
+    // Greedily take the longest run of groups that parses, then continue after it
+    const international = candidate.startsWith('+') || candidate.startsWith('00');
+    const groups = candidate.split(/[ \t]+/);
+    let start = 0;
+    while (start < groups.length) {
+      let consumed = 0;
+      for (let end = groups.length; end > start; end--) {
+        const parsed = parsePhoneNumber(groups.slice(start, end).join(' '), options);
+        if (parsed) {
+          push(parsed);
+          consumed = end - start;
+          break;
+        }
+      }
+      if (!consumed && international && start === 0) break;
+      start += consumed || 1;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Extracts phone numbers from text and formats them as E.164 (+CCNNNN...).
+ * Numbers without a country code are read in the default region; only the
+ * allowed regions are accepted and each must satisfy its numbering plan.
+ */
+export function extractAndFormatNumbers(
+  text: string,
+  options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS
+): string[] {
+  // parsePhoneNumbers already deduplicates results for the current image
+  return parsePhoneNumbers(text, options).map(n => n.e164);
+}
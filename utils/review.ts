@@ -0,0 +1,38 @@
+// Implement review heuristics that surface suspicious extractions before export
+import { ExtractedNumber, ReviewFlag } from '../types';
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlag, string> = {
+  low_confidence: 'Low confidence',
+  model_only: 'Not found in raw text',
+  toll_free: 'Toll-free / business line',
+  edited: 'Manually edited',
+};
+
+export const reviewFlags = (num: ExtractedNumber): ReviewFlag[] => {
+  const flags: ReviewFlag[] = [];
+  if (num.confidence !== undefined && num.confidence < LOW_CONFIDENCE_THRESHOLD) flags.push('low_confidence');
+  // The schema reported it but the regex scan of the same text did not, a common sign of a hallucinated digit
+  if (num.matchedBy === 'structured') flags.push('model_only');
+  if (num.phoneType === 'toll_free') flags.push('toll_free');
+  if (num.edited) flags.push('edited');
+  return flags;
+};
+
+// 'edited' is informational; every other flag needs a human look
+export const needsAttention = (num: ExtractedNumber): boolean =>
+  reviewFlags(num).some(flag => flag !== 'edited');
+
+const STATUS_ORDER = { pending: 0, approved: 1, excluded: 2 };
+
+// Pending suspicious rows first, then by ascending confidence so the weakest reads surface at the top
+export const sortForReview = (numbers: ExtractedNumber[]): ExtractedNumber[] =>
+  [...numbers].sort((a, b) =>
+    STATUS_ORDER[a.reviewStatus] - STATUS_ORDER[b.reviewStatus] ||
+    Number(needsAttention(b)) - Number(needsAttention(a)) ||
+    (a.confidence ?? 1) - (b.confidence ?? 1)
+  );
+
+export const approvedNumbers = (numbers: ExtractedNumber[]): ExtractedNumber[] =>
+  numbers.filter(num => num.reviewStatus === 'approved');
@@ -0,0 +1,95 @@
+// Implement reconciliation of structured OCR records with the regex scan of the raw text
+import { EntityType, ExtractedEntity, ExtractedNumber, OcrResult, PhoneParseOptions, PreparedImage } from '../types';
+import { DEFAULT_PHONE_OPTIONS, parsePhoneNumber, parsePhoneNumbers } from './phoneNumbers';
+import { sumTokens } from './usage';
+import { DEFAULT_ENTITY_TYPES, linkEntities, mergeEntities, recordEntities, scanEntities } from './extractors';
+
+export type ReconciledNumber = Omit<ExtractedNumber, 'id' | 'sourceImage' | 'sourceFileId' | 'reviewStatus' | 'edited'>;
+
+/**
+ * Merges schema records with regex hits from the same OCR result.
+ * Records whose number fails the numbering-plan cross-check are discarded as
+ * misreads, and regex hits the model did not report are kept as unlabelled fallbacks.
+ * Other entity types are taken from the records and from the text, where they
+ * are linked to the nearest number.
+ */
+export function reconcileExtraction(
+  result: OcrResult,
+  options: PhoneParseOptions = DEFAULT_PHONE_OPTIONS,
+  entityTypes: EntityType[] = DEFAULT_ENTITY_TYPES
+): ReconciledNumber[] {
+  const regexHits = parsePhoneNumbers(result.text, options);
+  const regexNumbers = new Set(regexHits.map(hit => hit.e164));
+  const reconciled = new Map<string, ReconciledNumber>();
+  const fromRecords = new Map<string, ExtractedEntity[]>();
+
+  for (const record of result.records || []) {
+    const parsed = parsePhoneNumber(record.number, options);
+    if (!parsed) continue;
+    // Collected even from weaker duplicate readings, which may carry a field the stronger one missed
+    fromRecords.set(parsed.e164, mergeEntities(fromRecords.get(parsed.e164), recordEntities(record, entityTypes, options)));
+
+    const existing = reconciled.get(parsed.e164);
+    // Keep the most confident reading when the model reports the same number twice
+    if (existing && (existing.confidence ?? 0) >= record.confidence) continue;
+
+    reconciled.set(parsed.e164, {
+      original: record.number,
+      formatted: parsed.e164,
+      region: parsed.region,
+      phoneType: parsed.type,
+      name: record.name || existing?.name,
+      confidence: record.confidence,
+      boundingBox: record.boundingBox,
+      matchedBy: regexNumbers.has(parsed.e164) ? 'both' : 'structured',
+    });
+  }
+
+  for (const hit of regexHits) {
+    if (reconciled.has(hit.e164)) continue;
+    reconciled.set(hit.e164, {
+      original: hit.raw,
+      formatted: hit.e164,
+      region: hit.region,
+      phoneType: hit.type,
+      matchedBy: 'regex',
+    });
+  }
+
+  const located = scanEntities(result.text, ['phone', ...entityTypes.filter(type => type !== 'phone')], options);
+  const fromText = linkEntities(located, located.filter(entity => entity.type === 'phone'));
+  return Array.from(reconciled.values()).map(num => {
+    const entities = mergeEntities(fromRecords.get(num.formatted), fromText.get(num.formatted));
+    return entities.length > 0 ? { ...num, entities } : num;
+  });
+}
+
+/**
+ * Combines per-tile OCR results into one result for the whole image. Bounding
+ * boxes are mapped from tile space back onto the full image; numbers seen twice
+ * in the overlap between tiles collapse later in reconcileExtraction.
+ */
+export function mergeTileResults(image: PreparedImage, results: OcrResult[]): OcrResult {
+  if (results.length === 1) return results[0];
+
+  const hasRecords = results.some(result => result.records);
+  return {
+    // Keep tiles on separate lines so digits at a seam are never glued together
+    text: results.map(result => result.text).join('\n'),
+    records: hasRecords
+      ? results.flatMap((result, idx) => {
+          const tile = image.tiles[idx];
+          return (result.records || []).map(record => ({
+            ...record,
+            boundingBox: record.boundingBox && {
+              ...record.boundingBox,
+              y: ((tile.offsetY + (record.boundingBox.y / 1000) * tile.height) / image.height) * 1000,
+              height: ((record.boundingBox.height / 1000) * tile.height / image.height) * 1000,
+            },
+          }));
+        })
+      : undefined,
+    usage: results.reduce<OcrResult['usage']>((total, result) => sumTokens(total, result.usage), undefined),
+    model: results.find(result => result.model)?.model,
+  };
+}
@@ -0,0 +1,100 @@
+// Implement export templates: column selection, name token rendering and batch labels
+import { ExportColumn, ExportTemplate, ExtractedNumber, PhoneNumberType } from '../types';
+import { entityValues } from './extractors';
+import { parsePhoneNumber } from './phoneNumbers';
+
+export const EXPORT_COLUMNS: { id: ExportColumn; label: string; required?: boolean }[] = [
+  { id: 'name', label: 'Name', required: true },
+  { id: 'phone', label: 'Phone', required: true },
+  { id: 'phoneType', label: 'Phone Type' },
+  { id: 'email', label: 'Email' },
+  { id: 'organization', label: 'Organisation' },
+  { id: 'labels', label: 'Labels / Groups' },
+  { id: 'notes', label: 'Notes (Source)' },
+];
+
+export const NAME_TOKENS = ['{name}', '{org}', '{source}', '{index}', '{date}', '{region}', '{type}'];
+
+export const DEFAULT_TEMPLATE: ExportTemplate = {
+  id: 'default',
+  name: 'Standard',
+  columns: ['name', 'phone'],
+  nameTemplate: '{name}',
+  labels: '',
+};
+
+export interface TemplateContext {
+  index: number;
+  date: Date;
+}
+
+const PHONE_TYPE_LABELS: Record<string, string> = {
+  mobile: 'Mobile',
+  fixed_or_mobile: 'Mobile',
+  landline: 'Work',
+  toll_free: 'Other',
+};
+
+export const phoneTypeLabel = (num: { phoneType?: PhoneNumberType }): string => PHONE_TYPE_LABELS[num.phoneType || 'mobile'];
+
+export interface ContactPhone {
+  formatted: string;
+  phoneType?: PhoneNumberType;
+}
+
+// The row's own number first, then any further numbers a merged address-book contact carries as phone entities
+export const contactPhones = (num: ExtractedNumber): ContactPhone[] => [
+  { formatted: num.formatted, phoneType: num.phoneType },
+  ...entityValues(num, 'phone').map(formatted => ({ formatted, phoneType: parsePhoneNumber(formatted)?.type })),
+];
+
+// Contacts can carry several emails or organisations; single-valued columns take the first one read
+export const primaryEntity = (num: ExtractedNumber, type: 'email' | 'organization'): string => entityValues(num, type)[0] || '';
+
+const stripExtension = (filename: string): string => filename.replace(/\.[^.]+$/, '');
+
+const renderTokens = (pattern: string, num: ExtractedNumber, ctx: TemplateContext): string =>
+  pattern.replace(/\{(\w+)\}/g, (token, key: string) => {
+    switch (key) {
+      // Extracted name, or the legacy sequential placeholder when the image had none
+      case 'name': return num.name || `Contact ${ctx.index + 1}`;
+      case 'org': return primaryEntity(num, 'organization');
+      case 'source': return stripExtension(num.sourceImage);
+      case 'index': return String(ctx.index + 1);
+      case 'date': return ctx.date.toISOString().slice(0, 10);
+      case 'region': return num.region || '';
+      case 'type': return phoneTypeLabel(num);
+      default: return token;
+    }
+  });
+
+export const renderName = (template: ExportTemplate, num: ExtractedNumber, ctx: TemplateContext): string =>
+  renderTokens(template.nameTemplate, num, ctx).trim() || `Contact ${ctx.index + 1}`;
+
+export const renderLabels = (template: ExportTemplate, num: ExtractedNumber, ctx: TemplateContext): string[] =>
+  renderTokens(template.labels, num, ctx)
+    .split(',')
+    .map(label => label.trim())
+    .filter(Boolean);
+
+// File name plus page for numbers read from multi-page documents
+export const describeSource = (sourceImage: string, sourcePage?: number): string =>
+  sourcePage ? `${sourceImage} (page ${sourcePage})` : sourceImage;
+
+// UPI IDs have no contact field in any format, so they travel in the notes along with imported notes
+export const renderNotes = (num: ExtractedNumber): string => {
+  const upi = entityValues(num, 'upi');
+  const source = `Source: ${describeSource(num.sourceImage, num.sourcePage)}`;
+  return [source, ...(upi.length > 0 ? [`UPI: ${upi.join(', ')}`] : []), ...entityValues(num, 'note')].join('\n');
+};
+
+export const hasColumn = (template: ExportTemplate, column: ExportColumn): boolean =>
+  template.columns.includes(column);
+
+// Required columns are always exported regardless of what a saved template says
+export const normalizeTemplate = (template: ExportTemplate): ExportTemplate => ({
+  ...template,
+  columns: EXPORT_COLUMNS
+    .filter(c => c.required || template.columns.includes(c.id))
+    .map(c => c.id),
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { TokenUsage, UsageStats } from '../types';
+import { DEFAULT_PRICE_TABLE, EMPTY_USAGE, estimateCost, formatCost, sumTokens, sumUsage, toUsageStats, wouldExceedBudget } from './usage';
+
+const tokens = (promptTokens: number, outputTokens: number): TokenUsage => ({ promptTokens, outputTokens, totalTokens: promptTokens + outputTokens });
+
+const spent = (costUsd: number): UsageStats => ({ ...EMPTY_USAGE, costUsd });
+
+describe('estimateCost', () => {
+  it.each<[TokenUsage, number]>([
+    [tokens(1_000_000, 0), 0.5],
+    [tokens(0, 1_000_000), 3],
+    [tokens(2000, 500), 0.0025],
+  ])('prices %j at $%d with the default table', (usage, cost) => {
+    expect(estimateCost(usage, DEFAULT_PRICE_TABLE['gemini-3-flash-preview'])).toBeCloseTo(cost, 10);
+  });
+
+  it('charges nothing for a model missing from the table', () => {
+    expect(estimateCost(tokens(2000, 500), undefined)).toBe(0);
+  });
+});
+
+describe('toUsageStats', () => {
+  it('prices a metered result by its model and counts its calls', () => {
+    expect(toUsageStats({ text: '', usage: tokens(2000, 500), model: 'gemini-3-flash-preview' }, DEFAULT_PRICE_TABLE, 4)).toEqual({
+      ...tokens(2000, 500),
+      calls: 4,
+      costUsd: 0.0025,
+    });
+  });
+
+  it.each([
+    ['an unmetered provider', { text: '' }],
+    ['a cache hit', { text: 'cached', model: 'gemini-3-flash-preview' }],
+  ])('is undefined for %s', (_label, result) => {
+    expect(toUsageStats(result, DEFAULT_PRICE_TABLE)).toBeUndefined();
+  });
+});
+
+describe('sumTokens and sumUsage', () => {
+  it.each<[TokenUsage | undefined, TokenUsage | undefined, TokenUsage | undefined]>([
+    [tokens(10, 5), tokens(1, 2), tokens(11, 7)],
+    [tokens(10, 5), undefined, tokens(10, 5)],
+    [undefined, tokens(1, 2), tokens(1, 2)],
+    [undefined, undefined, undefined],
+  ])('adds %j and %j', (a, b, total) => {
+    expect(sumTokens(a, b)).toEqual(total);
+  });
+
+  it('totals every metered item and skips the rest', () => {
+    const a: UsageStats = { ...tokens(100, 20), calls: 1, costUsd: 0.25 };
+    const b: UsageStats = { ...tokens(50, 10), calls: 2, costUsd: 0.5 };
+    expect(sumUsage([a, undefined, b])).toEqual({ ...tokens(150, 30), calls: 3, costUsd: 0.75 });
+  });
+
+  it('is undefined when nothing was metered', () => {
+    expect(sumUsage([undefined, undefined])).toBeUndefined();
+    expect(sumUsage([])).toBeUndefined();
+  });
+});
+
+describe('wouldExceedBudget', () => {
+  it.each<[string, number, number, number, number, boolean]>([
+    ['no budget', 100, 10, 0, 0, false],
+    ['nothing finished yet', 0, 0, 1, 5, false],
+    ['room for the next unit', 0.6, 3, 1, 0, false],
+    ['the next unit landing exactly on the budget', 0.8, 4, 1, 0, false],
+    ['the next unit going over', 0.9, 3, 1, 0, true],
+    ['units in flight using up the room', 0.6, 3, 1, 2, true],
+    ['in-flight units that still fit', 0.4, 4, 1, 4, false],
+    ['spend already past the budget', 1.2, 4, 1, 0, true],
+  ])('handles %s', (_label, cost, unitsDone, budget, inFlight, expected) => {
+    expect(wouldExceedBudget(spent(cost), unitsDone, budget, inFlight)).toBe(expected);
+  });
+});
+
+describe('formatCost', () => {
+  it.each<[number, string]>([
+    [0, '$0.00'],
+    [0.0025, '$0.0025'],
+    [0.01, '$0.01'],
+    [12.5, '$12.50'],
+  ])('formats %d as %s', (usd, text) => {
+    expect(formatCost(usd)).toBe(text);
+  });
+});
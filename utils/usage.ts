@@ -0,0 +1,50 @@
+// Implement token usage accounting, cost estimation from a price table and batch budget checks
+import { ModelPrice, OcrResult, PriceTable, TokenUsage, UsageStats } from '../types';
+
+export const EMPTY_USAGE: UsageStats = { promptTokens: 0, outputTokens: 0, totalTokens: 0, calls: 0, costUsd: 0 };
+
+// List prices for the models the built-in providers call; users override them in the usage panel
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+};
+
+export const sumTokens = (a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined =>
+  a && b
+    ? { promptTokens: a.promptTokens + b.promptTokens, outputTokens: a.outputTokens + b.outputTokens, totalTokens: a.totalTokens + b.totalTokens }
+    : a || b;
+
+// Models missing from the table cost nothing rather than blocking the batch; the panel lists them so a price can be added
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | undefined): number =>
+  price ? (usage.promptTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000 : 0;
+
+// Undefined for results from unmetered providers and for cache hits, which cost nothing this time
+export const toUsageStats = (result: OcrResult, prices: PriceTable, calls = 1): UsageStats | undefined =>
+  result.usage && {
+    ...result.usage,
+    calls,
+    costUsd: estimateCost(result.usage, result.model ? prices[result.model] : undefined),
+  };
+
+export const addUsage = (a: UsageStats | undefined, b: UsageStats | undefined): UsageStats => ({
+  promptTokens: (a?.promptTokens || 0) + (b?.promptTokens || 0),
+  outputTokens: (a?.outputTokens || 0) + (b?.outputTokens || 0),
+  totalTokens: (a?.totalTokens || 0) + (b?.totalTokens || 0),
+  calls: (a?.calls || 0) + (b?.calls || 0),
+  costUsd: (a?.costUsd || 0) + (b?.costUsd || 0),
+});
+
+export const sumUsage = (items: (UsageStats | undefined)[]): UsageStats | undefined =>
+  items.some(Boolean) ? items.reduce<UsageStats>((total, item) => addUsage(total, item), EMPTY_USAGE) : undefined;
+
+/**
+ * True when the next unit would likely push the batch past its budget,
+ * projecting the average cost of the units completed so far onto the units
+ * still in flight plus the next one. A budget of 0 means no limit.
+ */
+export const wouldExceedBudget = (spent: UsageStats, unitsDone: number, budgetUsd: number, inFlight = 0): boolean =>
+  budgetUsd > 0 && unitsDone > 0 && spent.costUsd + (spent.costUsd / unitsDone) * (inFlight + 1) > budgetUsd;
+
+export const formatCost = (usd: number): string => `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+
+export const formatUsage = (usage: UsageStats): string =>
+  `${usage.totalTokens.toLocaleString()} tok // ~${formatCost(usage.costUsd)}`;
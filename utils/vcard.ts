@@ -0,0 +1,76 @@
+// Implement vCard 3.0 and 4.0 generation for iOS and Android contact import
+import { ExportTemplate, ExtractedNumber, PhoneNumberType } from '../types';
+import { DEFAULT_TEMPLATE, TemplateContext, contactPhones, hasColumn, primaryEntity, renderLabels, renderName, renderNotes } from './templates';
+import { entityValues } from './extractors';
+
+export type VCardVersion = '3.0' | '4.0';
+
+// RFC 6350 section 3.4: backslash, comma, semicolon and newline must be escaped in text values
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded with CRLF followed by a single space
+const foldLine = (line: string): string => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length);
+    // Never split inside a multi-byte UTF-8 sequence
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    chunks.push(decoder.decode(bytes.slice(start, end)));
+    start = end;
+  }
+  return chunks.join('\r\n ');
+};
+
+const TEL_TYPES: Record<PhoneNumberType, string> = {
+  mobile: 'cell',
+  fixed_or_mobile: 'voice',
+  landline: 'work',
+  toll_free: 'work',
+};
+
+const buildCard = (num: ExtractedNumber, template: ExportTemplate, ctx: TemplateContext, version: VCardVersion): string[] => {
+  const name = escapeText(renderName(template, num, ctx));
+  const tels = contactPhones(num).map(phone => {
+    const telType = hasColumn(template, 'phoneType') ? TEL_TYPES[phone.phoneType || 'mobile'] : 'voice';
+    return version === '4.0'
+      ? `TEL;VALUE=uri;TYPE=${telType}:tel:${phone.formatted}`
+      : `TEL;TYPE=${telType.toUpperCase()}:${phone.formatted}`;
+  });
+
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `FN:${name}`,
+    `N:;${name};;;`,
+    ...tels,
+  ];
+  // vCard has a repeatable EMAIL property, so every address read for the contact is kept
+  if (hasColumn(template, 'email')) {
+    lines.push(...entityValues(num, 'email').map(email => (version === '4.0' ? `EMAIL;TYPE=work:${email}` : `EMAIL;TYPE=INTERNET:${email}`)));
+  }
+  const organization = hasColumn(template, 'organization') ? primaryEntity(num, 'organization') : '';
+  if (organization) lines.push(`ORG:${escapeText(organization)}`);
+  const labels = hasColumn(template, 'labels') ? renderLabels(template, num, ctx) : [];
+  if (labels.length > 0) lines.push(`CATEGORIES:${labels.map(escapeText).join(',')}`);
+  if (hasColumn(template, 'notes')) lines.push(`NOTE:${escapeText(renderNotes(num))}`);
+  lines.push('END:VCARD');
+  return lines;
+};
+
+export const generateVCard = (data: ExtractedNumber[], version: VCardVersion, template: ExportTemplate = DEFAULT_TEMPLATE): string => {
+  if (data.length === 0) return '';
+  const date = new Date();
+  return data
+    .flatMap((num, index) => buildCard(num, template, { index, date }, version))
+    .map(foldLine)
+    .join('\r\n') + '\r\n';
+};